@@ -2,6 +2,28 @@
 import { defineConfig } from "astro/config";
 
 import tailwindcss from "@tailwindcss/vite";
+import { fileURLToPath } from "url";
+
+const DECLARATION_WORKER = fileURLToPath(new URL("./src/lib/declarationWorker.ts", import.meta.url));
+
+// Emits the declaration worker as its own chunk of the server build and
+// points the worker URL of src/lib/declarationWorkers.ts at it, wherever the
+// bundler puts either file
+/** @returns {import("vite").Plugin} */
+function declarationWorker() {
+  return {
+    name: "zig-docs-declaration-worker",
+    apply: "build",
+    transform(code, id, options) {
+      if (!options?.ssr || !id.replace(/\\/g, "/").endsWith("/src/lib/declarationWorkers.ts")) return null;
+      const reference = this.emitFile({ type: "chunk", id: DECLARATION_WORKER, name: "declarationWorker" });
+      return code.replace(
+        'new URL("./declarationWorker.js", import.meta.url)',
+        `new URL(import.meta.ROLLUP_FILE_URL_${reference})`
+      );
+    },
+  };
+}
 
 // https://astro.build/config
 export default defineConfig({
@@ -17,6 +39,6 @@ export default defineConfig({
       exclude: ["fs", "path", "cheerio"], // Node.js modules used at build time
     },
 
-    plugins: [tailwindcss()],
+    plugins: [tailwindcss(), declarationWorker()],
   },
 });
\ No newline at end of file
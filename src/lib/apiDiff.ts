@@ -0,0 +1,272 @@
+import {
+  getAllModules,
+  getErrorData,
+  getFieldData,
+  getModuleData,
+  getVersions,
+} from "./docParser";
+import { getModuleDeclarations } from "./pathGenerator";
+import { htmlToText, splitErrorHtml, splitFieldHtml } from "./htmlTransform";
+import { isContainerDecl, isErrorSetDecl, isFunctionDecl, type DeclIndex, type ErrorNode } from "./types";
+
+// The parts of a declaration's API compared between two versions
+export interface ApiEntry {
+  fqn: string;
+  category: number; // -1 for module roots
+  categoryName: string;
+  proto: string | null; // Plain text prototype of functions
+  fields: string[]; // Plain text field declarations, e.g. "len: usize"
+  errors: string[]; // Error names of error sets and function error sets
+}
+
+export interface ApiChange {
+  fqn: string;
+  from: ApiEntry;
+  to: ApiEntry;
+  category?: { from: string; to: string };
+  proto?: { from: string | null; to: string | null };
+  fields?: { added: string[]; removed: string[] };
+  errors?: { added: string[]; removed: string[] };
+}
+
+export interface ApiDiff {
+  from: string;
+  to: string;
+  added: ApiEntry[];
+  removed: ApiEntry[];
+  changed: ApiChange[];
+}
+
+export interface DiffPair {
+  from: string;
+  to: string;
+}
+
+// Separates the two versions in a diff route, like a git compare range
+const PAIR_SEPARATOR = "...";
+
+// Orders Zig versions oldest first: releases by semver (a pre-release before
+// its release), then "master". Null when either label is neither, e.g. the
+// version names of a project documented from zigdocs.config.ts
+function compareVersions(a: string, b: string): number | null {
+  const parse = (version: string) => {
+    if (version === "master") return { core: [Infinity], pre: "" };
+    const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([\w.]+))?(?:\+[\w.]+)?$/.exec(version);
+    return match ? { core: match.slice(1, 4).map(Number), pre: match[4] ?? "" } : null;
+  };
+  const from = parse(a);
+  const to = parse(b);
+  if (!from || !to) return null;
+  for (let i = 0; i < Math.max(from.core.length, to.core.length); i++) {
+    const difference = (from.core[i] ?? 0) - (to.core[i] ?? 0);
+    if (difference !== 0 && !Number.isNaN(difference)) return Math.sign(difference);
+  }
+  if (from.pre === to.pre) return 0;
+  if (!from.pre || !to.pre) return from.pre ? -1 : 1;
+  return from.pre.localeCompare(to.pre, undefined, { numeric: true });
+}
+
+/**
+ * Lists the version pairs to diff. `ZIG_DIFFS` takes a comma-separated list
+ * of "from...to" ranges (e.g. "0.13.0...0.14.0"); by default every other
+ * documented version is compared with the default version, older to newer.
+ * Pairs naming a version that isn't documented are skipped, and so are
+ * default pairs whose order can't be told: those need `ZIG_DIFFS`.
+ */
+export function getDiffPairs(env = process.env): DiffPair[] {
+  const versions = getVersions();
+  if (env.ZIG_DIFFS) {
+    const pairs: DiffPair[] = [];
+    for (const range of env.ZIG_DIFFS.split(",").map((range) => range.trim())) {
+      if (!range) continue;
+      const pair = parseDiffPair(range);
+      if (pair && versions.includes(pair.from) && versions.includes(pair.to)) {
+        pairs.push(pair);
+      } else {
+        console.warn(`Skipping API diff "${range}": expected "from...to" with documented versions.`);
+      }
+    }
+    return pairs;
+  }
+  const [defaultVersion, ...others] = versions;
+  const pairs: DiffPair[] = [];
+  for (const other of others) {
+    const order = compareVersions(other, defaultVersion);
+    if (order === null) {
+      console.warn(
+        `Skipping API diff between "${other}" and "${defaultVersion}": can't tell which is newer, list it in ZIG_DIFFS.`
+      );
+    } else if (order !== 0) {
+      pairs.push(order < 0 ? { from: other, to: defaultVersion } : { from: defaultVersion, to: other });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Formats a pair as the route param of its diff pages.
+ * Example: { from: "0.13.0", to: "0.14.0" } -> "0.13.0...0.14.0"
+ */
+export function formatDiffPair(pair: DiffPair): string {
+  return `${pair.from}${PAIR_SEPARATOR}${pair.to}`;
+}
+
+function parseDiffPair(range: string): DiffPair | null {
+  const separator = range.indexOf(PAIR_SEPARATOR);
+  if (separator === -1) return null;
+  const from = range.slice(0, separator).trim();
+  const to = range.slice(separator + PAIR_SEPARATOR.length).trim();
+  return from && to ? { from, to } : null;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Only the declaration of each field is compared, not its docs
+async function getFieldSignatures(
+  declIndex: DeclIndex,
+  fieldIndices: number[],
+  version: string
+): Promise<string[]> {
+  const fields: string[] = [];
+  for (const fieldIndex of fieldIndices) {
+    const { html } = await getFieldData(declIndex, fieldIndex, version);
+    fields.push(normalizeText(splitFieldHtml(html).code));
+  }
+  return fields;
+}
+
+// Only the name of each error is compared, not its docs
+async function getErrorNames(
+  baseDeclIndex: DeclIndex,
+  errorNodes: ErrorNode[],
+  version: string
+): Promise<string[]> {
+  const names: string[] = [];
+  for (const errorNode of errorNodes) {
+    const { name } = splitErrorHtml((await getErrorData(baseDeclIndex, errorNode, version)).html);
+    if (name) names.push(name);
+  }
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Collects the API of every declaration of a version, reusing the traversal
+ * that generates the declaration pages, plus the module roots.
+ */
+async function collectApi(version: string): Promise<Map<string, ApiEntry>> {
+  const entries = new Map<string, ApiEntry>();
+
+  for (const module of await getAllModules(version)) {
+    const moduleData = await getModuleData(module.name, version);
+    entries.set(module.name, {
+      fqn: module.name,
+      category: -1,
+      categoryName: "module",
+      proto: null,
+      fields: await getFieldSignatures(moduleData.rootDeclIndex, moduleData.fields, version),
+      errors: [],
+    });
+  }
+
+  // Module by module, so only a few cache shards are loaded at a time
+  for (const module of await getAllModules(version)) {
+    for (const declData of await getModuleDeclarations(module.name, version)) {
+      let errorBaseIndex = declData.index;
+      let errorNodes: ErrorNode[] = [];
+      if (isFunctionDecl(declData)) {
+        errorBaseIndex = declData.errorSetBaseDecl ?? declData.index;
+        errorNodes = declData.errorSetNodes;
+      } else if (isErrorSetDecl(declData)) {
+        errorNodes = declData.errorSetNodes;
+      }
+      entries.set(declData.fqn, {
+        fqn: declData.fqn,
+        category: declData.category,
+        categoryName: declData.categoryName,
+        proto: isFunctionDecl(declData)
+          ? normalizeText(htmlToText(declData.protoHtml)) || null
+          : null,
+        fields: isContainerDecl(declData)
+          ? await getFieldSignatures(declData.index, declData.fields, version)
+          : [],
+        errors:
+          errorBaseIndex !== 0xffffffff
+            ? await getErrorNames(errorBaseIndex, errorNodes, version)
+            : [],
+      });
+    }
+  }
+
+  return entries;
+}
+
+function diffLists(from: string[], to: string[]): { added: string[]; removed: string[] } | undefined {
+  const fromSet = new Set(from);
+  const toSet = new Set(to);
+  const added = to.filter((item) => !fromSet.has(item));
+  const removed = from.filter((item) => !toSet.has(item));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+function compareEntries(from: ApiEntry, to: ApiEntry): ApiChange | null {
+  const change: ApiChange = { fqn: from.fqn, from, to };
+  if (from.categoryName !== to.categoryName) {
+    change.category = { from: from.categoryName, to: to.categoryName };
+  }
+  if (from.proto !== to.proto) {
+    change.proto = { from: from.proto, to: to.proto };
+  }
+  change.fields = diffLists(from.fields, to.fields);
+  change.errors = diffLists(from.errors, to.errors);
+  return change.category || change.proto || change.fields || change.errors
+    ? change
+    : null;
+}
+
+const diffs = new Map<string, Promise<ApiDiff>>();
+
+/**
+ * Compares the public API of two documented versions: declarations added,
+ * removed, and changed in category, prototype, fields or error set members.
+ * Memoized per pair, since the diff page and its JSON share one result.
+ * @param pair The versions to compare, both from getVersions()
+ * @returns The diff, every list sorted by FQN
+ */
+export function buildApiDiff(pair: DiffPair): Promise<ApiDiff> {
+  const key = formatDiffPair(pair);
+  let diff = diffs.get(key);
+  if (!diff) {
+    diff = (async () => {
+      console.log(`Building API diff ${key}...`);
+      const fromApi = await collectApi(pair.from);
+      const toApi = await collectApi(pair.to);
+
+      const result: ApiDiff = { ...pair, added: [], removed: [], changed: [] };
+      for (const [fqn, entry] of toApi) {
+        const previous = fromApi.get(fqn);
+        if (!previous) {
+          result.added.push(entry);
+          continue;
+        }
+        const change = compareEntries(previous, entry);
+        if (change) result.changed.push(change);
+      }
+      for (const [fqn, entry] of fromApi) {
+        if (!toApi.has(fqn)) result.removed.push(entry);
+      }
+
+      const byFqn = (a: { fqn: string }, b: { fqn: string }) => a.fqn.localeCompare(b.fqn);
+      result.added.sort(byFqn);
+      result.removed.sort(byFqn);
+      result.changed.sort(byFqn);
+      console.log(
+        `API diff ${key}: ${result.added.length} added, ${result.removed.length} removed, ${result.changed.length} changed.`
+      );
+      return result;
+    })();
+    diffs.set(key, diff);
+  }
+  return diff;
+}
@@ -0,0 +1,229 @@
+import {
+  getAllModules,
+  getErrorData,
+  getFieldData,
+  getModuleData,
+  getParamData,
+  getRouteVersion,
+  getSourceFiles,
+  getVersions,
+  processDeclarations,
+} from "./docParser";
+import { getModuleDeclarationFqns, getModuleDeclarations } from "./pathGenerator";
+import { getApiPath, getDeclPath, getSourcePath } from "./pathUtils";
+import { htmlToText, splitErrorHtml, splitFieldHtml } from "./htmlTransform";
+import { getExternalSourceUrl } from "./siteConfig";
+import { extractDocComment, extractFileDocComment, type LineRange } from "./sourceFiles";
+import {
+  isContainerDecl,
+  isErrorSetDecl,
+  isFunctionDecl,
+  type DeclData,
+  type DeclIndex,
+  type ErrorNode,
+} from "./types";
+
+// Bumped whenever the layout of the JSON files changes incompatibly
+const API_FORMAT_VERSION = 1;
+
+export interface ApiDocs {
+  markdown: string; // Doc comment as written in the source
+  html: string; // Rendered and sanitized, links pointing at this site
+}
+
+export interface ApiField {
+  code: string; // e.g. "len: usize = 0"
+  docsHtml: string;
+}
+
+export interface ApiError {
+  name: string;
+  docsHtml: string;
+}
+
+export interface ApiSource {
+  file: string; // Path inside sources.tar, e.g. "std/mem.zig"
+  lines: LineRange | null;
+  path: string; // Source view path without the base URL, or the forge URL if `sourceUrl` is set
+}
+
+export interface ApiDeclaration {
+  fqn: string;
+  name: string;
+  category: number; // See constants.ts
+  categoryName: string;
+  signature: string | null; // Prototype of functions, type of other declarations
+  docs: ApiDocs;
+  fields: ApiField[];
+  params: ApiField[];
+  errors: ApiError[];
+  members: string[]; // FQNs of public members of containers and namespaces
+  source: ApiSource;
+  aliasOf: string | null; // FQN of the aliased declaration
+  path: string; // Page path, without the base URL
+}
+
+export interface ApiModule {
+  formatVersion: number;
+  version: string;
+  name: string;
+  docs: ApiDocs;
+  fields: ApiField[];
+  source: ApiSource;
+  declarations: ApiDeclaration[]; // Every declaration under the module, sorted by FQN
+}
+
+export interface ApiIndex {
+  formatVersion: number;
+  version: string;
+  modules: { name: string; declarationCount: number; path: string }[];
+}
+
+async function getFields(
+  declIndex: DeclIndex,
+  fieldIndices: number[],
+  version: string
+): Promise<ApiField[]> {
+  const fields: ApiField[] = [];
+  for (const fieldIndex of fieldIndices) {
+    fields.push(splitFieldHtml((await getFieldData(declIndex, fieldIndex, version)).html));
+  }
+  return fields;
+}
+
+async function getParams(
+  declIndex: DeclIndex,
+  paramIndices: number[],
+  version: string
+): Promise<ApiField[]> {
+  const params: ApiField[] = [];
+  for (const paramIndex of paramIndices) {
+    params.push(splitFieldHtml((await getParamData(declIndex, paramIndex, version)).html));
+  }
+  return params;
+}
+
+async function getErrors(
+  baseDeclIndex: DeclIndex,
+  errorNodes: ErrorNode[],
+  version: string
+): Promise<ApiError[]> {
+  if (baseDeclIndex === 0xffffffff) return [];
+  const errors: ApiError[] = [];
+  for (const errorNode of errorNodes) {
+    errors.push(splitErrorHtml((await getErrorData(baseDeclIndex, errorNode, version)).html));
+  }
+  return errors;
+}
+
+async function toApiDeclaration(
+  declData: DeclData,
+  version: string,
+  sourceFiles: Map<string, string>
+): Promise<ApiDeclaration> {
+  const routeVersion = getRouteVersion(version);
+  const fileContent = sourceFiles.get(declData.filePath);
+  const signatureHtml = isFunctionDecl(declData) ? declData.protoHtml : declData.typeHtml;
+
+  let errors: ApiError[] = [];
+  if (isFunctionDecl(declData)) {
+    const baseDecl = declData.errorSetBaseDecl ?? declData.index;
+    errors = await getErrors(baseDecl, declData.errorSetNodes, version);
+  } else if (isErrorSetDecl(declData)) {
+    errors = await getErrors(declData.index, declData.errorSetNodes, version);
+  }
+
+  return {
+    fqn: declData.fqn,
+    name: declData.name,
+    category: declData.category,
+    categoryName: declData.categoryName,
+    signature: htmlToText(signatureHtml).trim() || null,
+    docs: {
+      markdown:
+        fileContent && declData.sourceLines
+          ? extractDocComment(fileContent, declData.sourceLines)
+          : "",
+      html: declData.docs,
+    },
+    fields: isContainerDecl(declData)
+      ? await getFields(declData.index, declData.fields, version)
+      : [],
+    params: isFunctionDecl(declData)
+      ? await getParams(declData.index, declData.params, version)
+      : [],
+    errors,
+    members: isContainerDecl(declData)
+      ? (await processDeclarations(declData.members, version)).map((member) => member.fqn)
+      : [],
+    source: {
+      file: declData.filePath,
+      lines: declData.sourceLines,
+      path:
+        getExternalSourceUrl(declData.filePath, declData.sourceLines, version) ??
+        getSourcePath(declData.filePath, declData.sourceLines, routeVersion),
+    },
+    aliasOf: declData.isAlias ? declData.targetFqn : null,
+    path: getDeclPath(declData.fqn, routeVersion),
+  };
+}
+
+/**
+ * Builds the JSON API dump of a module: its root and every declaration under
+ * it, from the same traversal as the declaration pages. Built on demand and
+ * not kept, so only the shards of the modules being written are in memory.
+ * @param moduleName Name of the module, e.g. "std"
+ * @param version Documented Zig version, defaults to the default one
+ */
+export async function buildApiModule(
+  moduleName: string,
+  version = getVersions()[0]
+): Promise<ApiModule> {
+  const routeVersion = getRouteVersion(version);
+  const sourceFiles = await getSourceFiles(version);
+  const moduleData = await getModuleData(moduleName, version);
+  const fileContent = sourceFiles.get(moduleData.filePath);
+
+  const declarations: ApiDeclaration[] = [];
+  for (const declData of await getModuleDeclarations(moduleName, version)) {
+    declarations.push(await toApiDeclaration(declData, version, sourceFiles));
+  }
+  declarations.sort((a, b) => a.fqn.localeCompare(b.fqn));
+
+  return {
+    formatVersion: API_FORMAT_VERSION,
+    version,
+    name: moduleName,
+    docs: {
+      markdown: fileContent ? extractFileDocComment(fileContent) : "",
+      html: moduleData.docs,
+    },
+    fields: await getFields(moduleData.rootDeclIndex, moduleData.fields, version),
+    source: {
+      file: moduleData.filePath,
+      lines: null,
+      path:
+        getExternalSourceUrl(moduleData.filePath, null, version) ??
+        getSourcePath(moduleData.filePath, null, routeVersion),
+    },
+    declarations,
+  };
+}
+
+/**
+ * Builds the index of the JSON API dump, listing the module files, from the
+ * cache manifest rather than the modules' declarations.
+ * @param version Documented Zig version, defaults to the default one
+ */
+export async function buildApiIndex(version = getVersions()[0]): Promise<ApiIndex> {
+  const routeVersion = getRouteVersion(version);
+  const modules: ApiIndex["modules"] = [];
+  for (const module of await getAllModules(version)) {
+    modules.push({
+      name: module.name,
+      declarationCount: (await getModuleDeclarationFqns(module.name, version)).length,
+      path: getApiPath(module.name, routeVersion),
+    });
+  }
+  return { formatVersion: API_FORMAT_VERSION, version, modules };
+}
@@ -0,0 +1,418 @@
+import fs from "fs/promises";
+import path from "path";
+import type { DocSetConfig } from "./config";
+import { getSiteConfig, type SiteConfig } from "./siteConfig";
+import { writeTarEntries, type SourceFile } from "./sourceFiles";
+
+// Metadata written next to the downloaded assets, recording where they came from
+const VERSION_FILE = "zig-version.json";
+
+const DEFAULT_ZIG_VERSION = "master";
+
+/**
+ * Where main.wasm and sources.tar come from, resolved from the environment:
+ * - `ZIG_DOCS_WASM` + `ZIG_DOCS_SOURCES`: local files (never touches the network)
+ * - `ZIG_DOCS_DIR`: a local directory holding both, e.g. the output of
+ *   `zig build-lib -femit-docs`
+ * - `ZIG_DOCS_URL`: a custom base URL serving both files
+ * - `ZIG_VERSION`: a Zig release (e.g. "0.14.0") or "master", fetched from ziglang.org
+ *
+ * When several versions are documented (`ZIG_VERSIONS`), a `{version}`
+ * placeholder in any of the paths or URLs is replaced with each version.
+ *
+ * Without these variables, the docSets of zigdocs.config.ts are used, which
+ * can also pack local source directories into sources.tar ("packed").
+ */
+export type AssetSource =
+  | { kind: "local"; version: string; wasmPath: string; sourcesPath: string }
+  | { kind: "url"; version: string; wasmUrl: string; sourcesUrl: string }
+  | {
+      kind: "packed";
+      version: string;
+      wasmPath: string | null; // Local main.wasm, or null to download wasmUrl
+      wasmUrl: string | null;
+      packages: { name: string; dir: string; root: string | null }[];
+    };
+
+export interface ResolvedAssets {
+  version: string;
+  wasmPath: string;
+  sourcesPath: string;
+}
+
+function isLocal(env: NodeJS.ProcessEnv): boolean {
+  return Boolean(env.ZIG_DOCS_WASM || env.ZIG_DOCS_SOURCES || env.ZIG_DOCS_DIR);
+}
+
+// Whether the environment selects the assets, taking precedence over the config
+function isSetByEnv(env: NodeJS.ProcessEnv): boolean {
+  return Boolean(env.ZIG_VERSIONS || env.ZIG_VERSION || env.ZIG_DOCS_URL || isLocal(env));
+}
+
+function getOfficialDocsUrl(version: string): string {
+  return `https://ziglang.org/documentation/${version}/std`;
+}
+
+/**
+ * Lists the versions to document. `ZIG_VERSIONS` takes a comma-separated
+ * list (e.g. "0.14.0,master"); otherwise the single `ZIG_VERSION` is used,
+ * or without any of the variables, the docSets of zigdocs.config.ts.
+ * The first version is the default one, served without a version prefix.
+ */
+export function getConfiguredVersions(
+  env = process.env,
+  config: SiteConfig = getSiteConfig()
+): string[] {
+  const versions = (env.ZIG_VERSIONS ?? "")
+    .split(",")
+    .map((version) => version.trim())
+    .filter(Boolean);
+  if (versions.length > 0) return [...new Set(versions)];
+  if (!isSetByEnv(env) && config.docSets.length > 0) {
+    return [...new Set(config.docSets.map((docSet) => docSet.version))];
+  }
+  return [env.ZIG_VERSION || (isLocal(env) ? "local" : DEFAULT_ZIG_VERSION)];
+}
+
+/**
+ * Resolves a docSet of zigdocs.config.ts. Relative paths are resolved from
+ * the project root.
+ */
+function resolveDocSetConfig(docSet: DocSetConfig): AssetSource {
+  const { version } = docSet;
+  const kinds = [
+    docSet.sources !== undefined,
+    docSet.docsDir !== undefined,
+    docSet.url !== undefined,
+    docSet.packages !== undefined,
+  ].filter(Boolean).length;
+  if (kinds !== 1) {
+    throw new Error(
+      `Docs version "${version}" in zigdocs.config.ts must set exactly one of wasm + sources, docsDir, url or packages.`
+    );
+  }
+
+  if (docSet.packages) {
+    return {
+      kind: "packed",
+      version,
+      wasmPath: docSet.wasm ? path.resolve(docSet.wasm) : null,
+      wasmUrl: docSet.wasm
+        ? null
+        : `${getOfficialDocsUrl(docSet.zigVersion || DEFAULT_ZIG_VERSION)}/main.wasm`,
+      packages: docSet.packages.map((pkg) => ({
+        name: pkg.name,
+        dir: path.resolve(pkg.dir),
+        root: pkg.root ?? null,
+      })),
+    };
+  }
+  if (docSet.sources !== undefined) {
+    if (!docSet.wasm) {
+      throw new Error(`Docs version "${version}" in zigdocs.config.ts sets sources without wasm.`);
+    }
+    return {
+      kind: "local",
+      version,
+      wasmPath: path.resolve(docSet.wasm),
+      sourcesPath: path.resolve(docSet.sources),
+    };
+  }
+  if (docSet.docsDir !== undefined) {
+    const dir = path.resolve(docSet.docsDir);
+    return {
+      kind: "local",
+      version,
+      wasmPath: path.join(dir, "main.wasm"),
+      sourcesPath: path.join(dir, "sources.tar"),
+    };
+  }
+  const baseUrl = docSet.url!.replace(/\/+$/, "");
+  return {
+    kind: "url",
+    version,
+    wasmUrl: `${baseUrl}/main.wasm`,
+    sourcesUrl: `${baseUrl}/sources.tar`,
+  };
+}
+
+/**
+ * Resolves the asset source from the environment variables documented on
+ * {@link AssetSource}, or else from zigdocs.config.ts. Relative local paths
+ * are resolved from the project root.
+ * @param version The version to resolve, defaults to the first configured one
+ */
+export function resolveAssetSource(
+  env = process.env,
+  version = getConfiguredVersions(env)[0],
+  config: SiteConfig = getSiteConfig()
+): AssetSource {
+  const docSet = isSetByEnv(env)
+    ? undefined
+    : config.docSets.find((candidate) => candidate.version === version);
+  if (docSet) return resolveDocSetConfig(docSet);
+
+  const expand = (value: string) => value.replaceAll("{version}", version);
+
+  if (env.ZIG_DOCS_WASM || env.ZIG_DOCS_SOURCES) {
+    if (!env.ZIG_DOCS_WASM || !env.ZIG_DOCS_SOURCES) {
+      throw new Error(
+        "ZIG_DOCS_WASM and ZIG_DOCS_SOURCES must be set together."
+      );
+    }
+    return {
+      kind: "local",
+      version,
+      wasmPath: path.resolve(expand(env.ZIG_DOCS_WASM)),
+      sourcesPath: path.resolve(expand(env.ZIG_DOCS_SOURCES)),
+    };
+  }
+
+  if (env.ZIG_DOCS_DIR) {
+    const dir = path.resolve(expand(env.ZIG_DOCS_DIR));
+    return {
+      kind: "local",
+      version,
+      wasmPath: path.join(dir, "main.wasm"),
+      sourcesPath: path.join(dir, "sources.tar"),
+    };
+  }
+
+  const baseUrl = expand(env.ZIG_DOCS_URL || getOfficialDocsUrl(version)).replace(
+    /\/+$/,
+    ""
+  );
+  return {
+    kind: "url",
+    version,
+    wasmUrl: `${baseUrl}/main.wasm`,
+    sourcesUrl: `${baseUrl}/sources.tar`,
+  };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false);
+}
+
+async function readRecordedSource(assetsDir: string): Promise<AssetSource | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(assetsDir, VERSION_FILE), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function isSameSource(a: AssetSource | null, b: AssetSource): boolean {
+  return a !== null && JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ETag and Last-Modified of a downloaded asset, kept in "<asset>.http.json"
+interface HttpValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+async function readValidators(destination: string): Promise<HttpValidators | null> {
+  try {
+    return JSON.parse(await fs.readFile(`${destination}.http.json`, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Downloads a file to `destination`, writing to a temporary file first so an
+ * interrupted download never leaves a truncated asset behind.
+ * @param revalidate Whether an existing file is only replaced if the server
+ *   has a newer one, asked with the ETag and Last-Modified it last sent
+ */
+async function download(url: string, destination: string, revalidate = false): Promise<void> {
+  const name = path.basename(destination);
+  const validators = revalidate ? await readValidators(destination) : null;
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers["If-None-Match"] = validators.etag;
+  if (validators?.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+  console.log(`${revalidate ? "Checking" : "Downloading"} ${name} from ${url}...`);
+
+  const response = await fetch(url, { headers });
+  if (response.status === 304) {
+    console.log(`${name} is up to date.`);
+    return;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${name}: ${response.status} ${response.statusText}`
+    );
+  }
+  const temporary = `${destination}.download`;
+  await fs.writeFile(temporary, Buffer.from(await response.arrayBuffer()));
+  await fs.rename(temporary, destination);
+  const received: HttpValidators = {
+    etag: response.headers.get("ETag"),
+    lastModified: response.headers.get("Last-Modified"),
+  };
+  await fs.writeFile(`${destination}.http.json`, JSON.stringify(received, null, 2));
+  console.log(`${name} downloaded and saved successfully.`);
+}
+
+// Moving targets like "master" keep their URL, so cached downloads are checked
+// for updates on every build; a failed check (e.g. offline) keeps them
+async function revalidate(downloads: { url: string; destination: string }[]): Promise<void> {
+  try {
+    await Promise.all(downloads.map(({ url, destination }) => download(url, destination, true)));
+  } catch (error) {
+    console.warn("Could not check the cached Zig docs assets for updates, using them as they are:", error);
+  }
+}
+
+// Directories never holding a package's own sources
+const IGNORED_DIRS = new Set(["zig-cache", ".zig-cache", "zig-out", "node_modules"]);
+
+async function listZigFiles(dir: string, relative = ""): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, relative), { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && !IGNORED_DIRS.has(entry.name)) {
+        files.push(...(await listZigFiles(dir, entryPath)));
+      }
+    } else if (entry.isFile() && entry.name.endsWith(".zig")) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Packs the .zig files of local packages into a sources.tar the WASM can
+ * unpack: every file is stored as "<module>/<path>". The WASM takes the first
+ * file of a module as its root, unless a later root.zig or <module>.zig
+ * replaces it, so the root file goes first, or last if it is one of those.
+ */
+async function packSources(
+  packages: Extract<AssetSource, { kind: "packed" }>["packages"]
+): Promise<Uint8Array> {
+  const files: SourceFile[] = [];
+  for (const pkg of packages) {
+    const zigFiles = await listZigFiles(pkg.dir);
+    const root =
+      pkg.root ?? ["root.zig", `${pkg.name}.zig`].find((file) => zigFiles.includes(file));
+    if (!root || !zigFiles.includes(root)) {
+      throw new Error(
+        `No root file for package "${pkg.name}" in ${pkg.dir}; set its root in zigdocs.config.ts.`
+      );
+    }
+    const rootNames = ["root.zig", `${pkg.name}.zig`];
+    const competing = rootNames.filter((file) => file !== root && zigFiles.includes(file));
+    if (competing.length > 0 && !rootNames.includes(root)) {
+      throw new Error(
+        `The root of package "${pkg.name}" is ${root}, but the WASM would use its ${competing.join(" or ")} instead; rename that file or make it the root.`
+      );
+    }
+    const others = zigFiles.filter((file) => file !== root);
+    for (const file of rootNames.includes(root) ? [...others, root] : [root, ...others]) {
+      files.push({
+        path: `${pkg.name}/${file}`,
+        content: await fs.readFile(path.join(pkg.dir, file), "utf-8"),
+      });
+    }
+    console.log(`Packed ${zigFiles.length} files of package "${pkg.name}" from ${pkg.dir}.`);
+  }
+  return writeTarEntries(files);
+}
+
+/**
+ * Makes sure main.wasm and sources.tar for a configured version are
+ * available. Downloaded assets are cached in `<assetsRoot>/<version>/`
+ * together with a zig-version.json recording their origin; they are fetched
+ * again whenever the configured source no longer matches the recorded one,
+ * or the server has newer files under the same URL.
+ * @param assetsRoot Directory holding the downloaded assets of every version
+ * @param version One of the versions from {@link getConfiguredVersions}
+ * @returns The version label and the paths to read the assets from
+ */
+export async function ensureAssets(
+  assetsRoot: string,
+  version: string
+): Promise<ResolvedAssets> {
+  const source = resolveAssetSource(process.env, version);
+  const assetsDir = path.join(assetsRoot, version.replace(/[^\w.-]/g, "_"));
+  console.log(`Using Zig docs assets for version "${source.version}" (${source.kind}).`);
+
+  await fs.mkdir(assetsDir, { recursive: true });
+
+  if (source.kind === "packed") {
+    // Sources are packed again on every build, so edits always show up
+    const sourcesPath = path.join(assetsDir, "sources.tar");
+    const temporary = `${sourcesPath}.download`;
+    await fs.writeFile(temporary, await packSources(source.packages));
+    await fs.rename(temporary, sourcesPath);
+
+    let wasmPath = source.wasmPath;
+    if (wasmPath) {
+      if (!(await fileExists(wasmPath))) {
+        throw new Error(`Local docs asset not found: ${wasmPath}`);
+      }
+    } else {
+      wasmPath = path.join(assetsDir, "main.wasm");
+      const recorded = await readRecordedSource(assetsDir);
+      const sameWasm =
+        recorded?.kind === "packed" && recorded.wasmUrl === source.wasmUrl;
+      if (!sameWasm || !(await fileExists(wasmPath))) {
+        await download(source.wasmUrl!, wasmPath);
+      } else {
+        await revalidate([{ url: source.wasmUrl!, destination: wasmPath }]);
+      }
+    }
+    await fs.writeFile(path.join(assetsDir, VERSION_FILE), JSON.stringify(source, null, 2));
+    return { version: source.version, wasmPath, sourcesPath };
+  }
+
+  if (source.kind === "local") {
+    for (const filePath of [source.wasmPath, source.sourcesPath]) {
+      if (!(await fileExists(filePath))) {
+        throw new Error(`Local docs asset not found: ${filePath}`);
+      }
+    }
+    await fs.writeFile(path.join(assetsDir, VERSION_FILE), JSON.stringify(source, null, 2));
+    return {
+      version: source.version,
+      wasmPath: source.wasmPath,
+      sourcesPath: source.sourcesPath,
+    };
+  }
+
+  const wasmPath = path.join(assetsDir, "main.wasm");
+  const sourcesPath = path.join(assetsDir, "sources.tar");
+  const recorded = await readRecordedSource(assetsDir);
+  const upToDate =
+    isSameSource(recorded, source) &&
+    (await fileExists(wasmPath)) &&
+    (await fileExists(sourcesPath));
+
+  if (upToDate) {
+    await revalidate([
+      { url: source.wasmUrl, destination: wasmPath },
+      { url: source.sourcesUrl, destination: sourcesPath },
+    ]);
+    console.log("All required assets already exist.");
+  } else {
+    if (recorded && !isSameSource(recorded, source)) {
+      console.log(
+        `Cached assets are for version "${recorded.version}" (${recorded.kind}), re-downloading.`
+      );
+    }
+    await Promise.all([
+      download(source.wasmUrl, wasmPath),
+      download(source.sourcesUrl, sourcesPath),
+    ]);
+    await fs.writeFile(path.join(assetsDir, VERSION_FILE), JSON.stringify(source, null, 2));
+    console.log("All required assets are now available.");
+  }
+
+  return { version: source.version, wasmPath, sourcesPath };
+}
@@ -0,0 +1,88 @@
+import { getBuildIssues, getDeclarationFqns } from "./pathGenerator";
+import { getSiteConfig } from "./siteConfig";
+import type { BuildIssue, BuildIssueKind } from "./types";
+
+// Headings of the report's sections, in the order they are shown
+export const ISSUE_LABELS: Record<BuildIssueKind, string> = {
+  "failed-module": "Failed modules",
+  "failed-declaration": "Failed declarations",
+  "unresolved-alias": "Unresolved aliases",
+  "unknown-category": "Unknown categories",
+  "dangling-link": "Dangling links",
+  "missing-docs": "Declarations without docs",
+};
+
+// Issues that fail a strict build; undocumented declarations are only listed
+const ERROR_KINDS = new Set<BuildIssueKind>([
+  "failed-module",
+  "failed-declaration",
+  "unresolved-alias",
+  "unknown-category",
+  "dangling-link",
+]);
+
+export interface BuildReport {
+  version: string;
+  pages: number; // Module and declaration pages generated
+  errors: number; // Issues that fail a strict build, see SiteConfig.strict
+  counts: Record<BuildIssueKind, number>;
+  issues: BuildIssue[]; // Sorted by kind, then FQN
+}
+
+// Memoized per version: built once, shared by the HTML and JSON reports
+const reports = new Map<string, Promise<BuildReport>>();
+
+/**
+ * Whether an issue fails a strict build.
+ */
+export function isErrorIssue(issue: BuildIssue): boolean {
+  return ERROR_KINDS.has(issue.kind);
+}
+
+async function createBuildReport(version: string): Promise<BuildReport> {
+  const kinds = Object.keys(ISSUE_LABELS) as BuildIssueKind[];
+  const issues = (await getBuildIssues(version)).sort(
+    (a, b) => kinds.indexOf(a.kind) - kinds.indexOf(b.kind) || a.fqn.localeCompare(b.fqn)
+  );
+  const counts = Object.fromEntries(kinds.map((kind) => [kind, 0])) as Record<BuildIssueKind, number>;
+  for (const issue of issues) counts[issue.kind]++;
+
+  return {
+    version,
+    pages: (await getDeclarationFqns(version)).size,
+    errors: issues.filter(isErrorIssue).length,
+    counts,
+    issues,
+  };
+}
+
+/**
+ * Returns the build report of a version: everything that went wrong while
+ * generating it, instead of log lines lost in the build output. In strict
+ * mode, a report with errors fails the build, after logging what they are.
+ * @param version Documented version
+ */
+export function getBuildReport(version: string): Promise<BuildReport> {
+  let report = reports.get(version);
+  if (!report) {
+    report = createBuildReport(version).then((created) => {
+      const summary = Object.entries(created.counts)
+        .filter(([, count]) => count > 0)
+        .map(([kind, count]) => `${count} ${kind}`)
+        .join(", ");
+      console.log(`Build report for version "${version}": ${summary || "no issues"}.`);
+
+      if (getSiteConfig().strict && created.errors > 0) {
+        for (const issue of created.issues.filter(isErrorIssue).slice(0, 20)) {
+          console.error(`  ${issue.kind}: ${issue.fqn}${issue.detail ? ` (${issue.detail})` : ""}`);
+        }
+        throw new Error(
+          `Build report for version "${version}" lists ${created.errors} errors and strict mode is on`
+        );
+      }
+      return created;
+    });
+    reports.set(version, report);
+  }
+  return report;
+}
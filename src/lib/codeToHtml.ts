@@ -1,28 +1,140 @@
-// import { codeToHtml as codeToHtmlInternal } from "shiki";
+// Build-time syntax highlighting. Everything here runs in the page frontmatter,
+// so no grammar or Oniguruma WASM is shipped to the browser.
 
-// export const codeToHtml = async (code: string): Promise<string> => {
-//   return codeToHtmlInternal(code, {
-//     lang: "zig",
-//     theme: "dracula",
-//   });
-// };
-
-// now i will do a fine grained bundle
-
-import dracula from "@shikijs/themes/dracula";
-import { createHighlighterCore } from "shiki/core";
+import * as cheerio from "cheerio";
+import { createHighlighterCore, type DecorationItem } from "shiki/core";
 import { createOnigurumaEngine } from "shiki/engine/oniguruma";
+import { bundledThemes, type BundledTheme } from "shiki/themes";
 import zig from "@shikijs/langs/zig";
 
+// Themes can be overridden with SHIKI_THEME (dark mode) and SHIKI_LIGHT_THEME
+// (light mode); any theme bundled with Shiki works, e.g. "github-dark".
+const DARK_THEME = (process.env.SHIKI_THEME || "dracula") as BundledTheme;
+const LIGHT_THEME = (process.env.SHIKI_LIGHT_THEME || "github-light") as BundledTheme;
+
+async function loadTheme(name: BundledTheme) {
+  const loader = bundledThemes[name];
+  if (!loader) {
+    throw new Error(`Unknown Shiki theme: ${name}`);
+  }
+  return (await loader()).default;
+}
+
 const highlighter = await createHighlighterCore({
-  themes: [dracula],
+  themes: [await loadTheme(DARK_THEME), await loadTheme(LIGHT_THEME)],
   langs: [zig],
   engine: createOnigurumaEngine(import("shiki/wasm")),
 });
 
+// Emit both themes as CSS variables; global.css picks one per color scheme
+const themeOptions = {
+  lang: "zig",
+  themes: { light: LIGHT_THEME, dark: DARK_THEME },
+  defaultColor: false,
+} as const;
+
+/**
+ * Splits an HTML fragment from the WASM into its plain text and the ranges
+ * of the cross-reference links inside it, so the text can be highlighted and
+ * the links re-applied on top of the token spans as Shiki decorations.
+ */
+function extractLinks(html: string): { code: string; decorations: DecorationItem[] } {
+  const $ = cheerio.load(html, null, false);
+  let code = "";
+  const decorations: DecorationItem[] = [];
+
+  type ChildNodes = ReturnType<typeof $.root>[0]["children"];
+
+  function walk(nodes: ChildNodes) {
+    for (const node of nodes) {
+      if (node.type === "text") {
+        code += node.data;
+      } else if ("attribs" in node) {
+        const start = code.length;
+        walk(node.children);
+        const href = node.name === "a" ? node.attribs.href : undefined;
+        // Decorations can't span lines or be empty
+        if (href && code.length > start && !code.slice(start).includes("\n")) {
+          decorations.push({
+            start,
+            end: code.length,
+            tagName: "a",
+            properties: { href },
+            alwaysWrap: true,
+          });
+        }
+      }
+    }
+  }
+
+  walk($.root()[0].children);
+  return { code, decorations };
+}
+
+/**
+ * Highlights plain Zig code.
+ * @returns A `<pre class="shiki">` block
+ */
 export const codeToHtml = async (code: string): Promise<string> => {
+  return highlighter.codeToHtml(code, themeOptions);
+};
+
+/**
+ * Highlights a code fragment rendered by the WASM (prototype, type, source,
+ * doctest), keeping its cross-reference links on the highlighted tokens.
+ * @param html Sanitized HTML from the WASM
+ * @returns A `<pre class="shiki">` block, or an empty string for empty input
+ */
+export const highlightCode = async (html: string | undefined | null): Promise<string> => {
+  if (!html) return "";
+  const { code, decorations } = extractLinks(html);
+  if (!code.trim()) return "";
+  return highlighter.codeToHtml(code, { ...themeOptions, decorations });
+};
+
+/**
+ * Highlights every Zig `<pre>` code block inside a larger HTML fragment, such
+ * as rendered doc comments or the field and parameter HTML from the WASM:
+ * blocks without a language or fenced as zig. Blocks in other languages
+ * (shell, JSON, plain text) and the rest of the fragment are left untouched.
+ * @param html Sanitized HTML from the WASM
+ * @returns The fragment with its code blocks highlighted
+ */
+export const highlightCodeBlocks = async (html: string | undefined | null): Promise<string> => {
+  if (!html) return "";
+  const $ = cheerio.load(html, null, false);
+  const blocks = $("pre").toArray();
+  if (blocks.length === 0) return html;
+
+  for (const block of blocks) {
+    const language = /^language-(.+)$/.exec($(block).children("code").attr("class") ?? "")?.[1];
+    if (language && language.toLowerCase() !== "zig") continue;
+    const highlighted = await highlightCode($(block).html() ?? "");
+    if (highlighted) $(block).replaceWith(highlighted);
+  }
+  return $.html();
+};
+
+/**
+ * Highlights a whole source file, giving every line an `L<n>` id so the
+ * source view can jump to and highlight line ranges.
+ */
+export const sourceToHtml = async (code: string): Promise<string> => {
   return highlighter.codeToHtml(code, {
-    lang: "zig",
-    theme: "dracula",
+    ...themeOptions,
+    transformers: [
+      {
+        line(node, line) {
+          node.properties.id = `L${line}`;
+          // Clickable line number in front of the code, styled by the source page
+          node.children.unshift({
+            type: "element",
+            tagName: "a",
+            properties: { href: `#L${line}`, class: "line-number" },
+            children: [{ type: "text", value: String(line) }],
+          });
+        },
+      },
+    ],
   });
 };
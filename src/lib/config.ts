@@ -0,0 +1,43 @@
+// Types of zigdocs.config.ts. Kept free of imports so the config file can
+// import defineConfig without pulling in the build code.
+
+/**
+ * A Zig module packed into sources.tar from a local directory.
+ */
+export interface SourcePackage {
+  name: string; // Module name, e.g. "mylib"
+  dir: string; // Directory holding the module's .zig files, relative to the project root
+  root?: string; // Root file relative to dir, defaults to "root.zig" or "<name>.zig"; can only be another file if neither exists
+}
+
+/**
+ * Where the main.wasm and sources.tar of one documented version come from.
+ * Set exactly one of: `wasm` + `sources`, `docsDir`, `url` or `packages`.
+ */
+export interface DocSetConfig {
+  version: string; // Label shown in the version switcher and used in routes
+  wasm?: string; // Local main.wasm (with `sources`, or with `packages`)
+  sources?: string; // Local sources.tar
+  docsDir?: string; // Local directory holding both, e.g. zig-out/docs
+  url?: string; // Base URL serving both
+  packages?: SourcePackage[]; // Directories to pack into sources.tar
+  zigVersion?: string; // Zig release whose main.wasm renders `packages` when `wasm` isn't set (default "master")
+  ref?: string; // Git ref substituted for {ref} in `sourceUrl`, defaults to `version`
+}
+
+export interface ZigDocsConfig {
+  title?: string; // Site title, default "Zig Documentation"
+  repoUrl?: string; // Repository linked from the header
+  sourceUrl?: string; // Forge URL template for [src] links, see SiteConfig.sourceUrl
+  includePrivate?: boolean; // Also document non-pub declarations, default false
+  docSets?: DocSetConfig[]; // Documented versions, the default one first
+  modules?: string[] | ((name: string) => boolean); // Modules to expose, default all
+  strict?: boolean; // Fail the build when the build report has errors, default false
+}
+
+/**
+ * Identity helper giving zigdocs.config.ts type checking and completion.
+ */
+export function defineConfig(config: ZigDocsConfig): ZigDocsConfig {
+  return config;
+}
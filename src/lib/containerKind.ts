@@ -0,0 +1,227 @@
+// Classifies types by the container they are written as (struct, enum,
+// union, opaque), which the WASM categories only partly tell (see constants.ts)
+import * as DeclCategories from "./constants";
+import type { ContainerKind, DeclCategory, TypeConstructor } from "./types";
+
+// Section titles of the module page's type listing, in the order shown
+export const TYPE_GROUP_TITLES = {
+  struct: "Structs",
+  "packed struct": "Packed structs",
+  "extern struct": "Extern structs",
+  enum: "Enums",
+  union: "Unions",
+  "tagged union": "Tagged unions",
+  "packed union": "Packed unions",
+  "extern union": "Extern unions",
+  opaque: "Opaque types",
+  "type constructor": "Generic type constructors",
+  "type function": "Type functions",
+  other: "Other types",
+} as const;
+
+export type TypeGroup = keyof typeof TYPE_GROUP_TITLES;
+
+// What a listing knows about a declaration, a DeclSummary or DeclData
+interface KindSource {
+  category: DeclCategory;
+  categoryName: string;
+  containerKind?: ContainerKind | null;
+  typeConstructor?: TypeConstructor | null;
+}
+
+const CONTAINER_LITERAL = /^(?:(packed|extern)\s+)?(struct|enum|union|opaque)\b\s*/;
+
+// Blanks out comments and the contents of string and character literals,
+// so braces and keywords in them are ignored
+function stripCommentsAndStrings(source: string): string {
+  return source.replace(
+    /\/\/[^\n]*|\\\\[^\n]*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g,
+    (match) => (match[0] === '"' ? '""' : match[0] === "'" ? "' '" : "")
+  );
+}
+
+// Reads the parenthesized text starting at `start`, which holds the "("
+function readParenthesized(code: string, start: number): { text: string; end: number } | null {
+  let depth = 0;
+  for (let i = start; i < code.length; i++) {
+    if (code[i] === "(") depth++;
+    else if (code[i] === ")" && --depth === 0) return { text: code.slice(start + 1, i), end: i + 1 };
+  }
+  return null;
+}
+
+// Reads a container literal at the start of an expression, e.g. "enum(u8) { ... }"
+function parseContainerLiteral(expression: string): ContainerKind | null {
+  const match = CONTAINER_LITERAL.exec(expression);
+  if (!match) return null;
+  let rest = expression.slice(match[0].length);
+  let argument: string | null = null;
+  if (rest.startsWith("(")) {
+    const parenthesized = readParenthesized(rest, 0);
+    if (!parenthesized) return null;
+    argument = parenthesized.text.replace(/\s+/g, " ").trim();
+    rest = rest.slice(parenthesized.end).trimStart();
+  }
+  if (!rest.startsWith("{")) return null;
+  return {
+    keyword: match[2] as ContainerKind["keyword"],
+    layout: (match[1] as ContainerKind["layout"]) ?? null,
+    argument,
+  };
+}
+
+/**
+ * Determines the container a declaration is written as, e.g. `packed struct(u32)`.
+ * The WASM's category name (decl_category_name) already tells the keyword, but
+ * not packed layouts or tag types: those are read from the declaration's source.
+ * @param sourceText The declaration's source, as plain text
+ * @param name The declaration's name, which its source has to declare
+ * @param categoryName The WASM's category name, e.g. "struct" or "extern union"
+ * @returns The kind, or null for types whose source doesn't spell out a container
+ */
+export function parseContainerKind(
+  sourceText: string,
+  name: string,
+  categoryName: string
+): ContainerKind | null {
+  const named = /^(?:(packed|extern) )?(struct|enum|union|opaque)$/.exec(categoryName);
+  const fromCategory: ContainerKind | null = named
+    ? { keyword: named[2] as ContainerKind["keyword"], layout: (named[1] as ContainerKind["layout"]) ?? null, argument: null }
+    : null;
+
+  // Files are structs whose source is the whole file, hence the name check
+  const code = stripCommentsAndStrings(sourceText);
+  const declaration =
+    /^\s*(?:pub\s+)?(?:const|var)\s+(@""|[A-Za-z_]\w*)\s*(?::[^=]*)?=\s*/.exec(code);
+  const parsed =
+    declaration && (declaration[1] === name || declaration[1] === '@""')
+      ? parseContainerLiteral(code.slice(declaration[0].length))
+      : null;
+  if (parsed && (!fromCategory || parsed.keyword === fromCategory.keyword)) return parsed;
+  return fromCategory;
+}
+
+/**
+ * Tells whether a type function is a generic type constructor: one returning
+ * a container literal, a container declared in its body, or the result of
+ * another constructor (`return ArrayListAligned(T, null);`).
+ * @param sourceText The function's source, as plain text
+ * @returns What it constructs, or null for functions computing with existing types
+ */
+export function parseTypeConstructor(sourceText: string): TypeConstructor | null {
+  const code = stripCommentsAndStrings(sourceText);
+  const fn = /\bfn\s+(?:@""|[A-Za-z_]\w*)\s*\(/.exec(code);
+  if (!fn) return null;
+  const params = readParenthesized(code, fn.index + fn[0].length - 1);
+  const bodyStart = params ? code.indexOf("{", params.end) : -1;
+  if (bodyStart === -1) return null;
+
+  // The function's own returns, skipping those of the methods of the
+  // containers it declares
+  const returns: string[] = [];
+  const containerBraces: boolean[] = [];
+  const tokens = /\breturn\b|[{}]/g;
+  tokens.lastIndex = bodyStart;
+  for (let token = tokens.exec(code); token; token = tokens.exec(code)) {
+    if (token[0] === "{") {
+      const before = code.slice(Math.max(0, token.index - 200), token.index);
+      containerBraces.push(
+        /\b(?:struct|enum|union|opaque)\s*(?:\((?:[^()]|\([^()]*\))*\))?\s*$/.test(before)
+      );
+    } else if (token[0] === "}") {
+      containerBraces.pop();
+      if (containerBraces.length === 0) break; // End of the body
+    } else if (!containerBraces.includes(true)) {
+      returns.push(code.slice(tokens.lastIndex).trimStart());
+    }
+  }
+  const body = code.slice(bodyStart);
+
+  let delegates = false;
+  for (const expression of returns) {
+    const literal = parseContainerLiteral(expression);
+    if (literal) return { returns: literal };
+
+    // `const Self = struct { ... }; return Self;`
+    const identifier = /^([A-Za-z_]\w*)\s*;/.exec(expression)?.[1];
+    const declared = identifier
+      ? new RegExp(`\\bconst\\s+${identifier}\\s*(?::[^=]*)?=\\s*`).exec(body)
+      : null;
+    const declaredKind = declared
+      ? parseContainerLiteral(body.slice(declared.index + declared[0].length))
+      : null;
+    if (declaredKind) return { returns: declaredKind };
+
+    // Type functions are named in TitleCase, helpers like Child(T) excepted
+    if (/^(?:@Type\s*\(|(?:[A-Za-z_]\w*\.)*[A-Z]\w*\s*\()/.test(expression)) delegates = true;
+  }
+  return delegates ? { returns: null } : null;
+}
+
+/**
+ * Writes a container kind the way it's declared, e.g. "packed struct(u32)".
+ */
+export function formatContainerKind(kind: ContainerKind): string {
+  return `${kind.layout ? `${kind.layout} ` : ""}${kind.keyword}${kind.argument !== null ? `(${kind.argument})` : ""}`;
+}
+
+/**
+ * The label of a declaration's badge: its container kind when known, e.g.
+ * "enum(u8)", "type constructor" for generic type constructors, its WASM
+ * category name otherwise.
+ */
+export function getKindLabel(decl: KindSource): string {
+  if (decl.containerKind) return formatContainerKind(decl.containerKind);
+  if (decl.typeConstructor) return "type constructor";
+  return decl.categoryName;
+}
+
+/**
+ * The group a type is listed under on its module page.
+ */
+export function getTypeGroup(decl: KindSource): TypeGroup {
+  if (decl.typeConstructor) return "type constructor";
+  if (decl.category === DeclCategories.CAT_type_function) return "type function";
+  const kind = decl.containerKind;
+  if (!kind) return "other";
+  if (kind.keyword === "union" && kind.layout === null && kind.argument !== null) return "tagged union";
+  return kind.layout ? `${kind.layout} ${kind.keyword}` as TypeGroup : kind.keyword;
+}
+
+// Reads an integer literal, e.g. "0x1F", "1_000" or "'a'"
+function parseIntegerLiteral(text: string): bigint | null {
+  const char = /^'(.)'$/u.exec(text);
+  if (char) return BigInt(char[1].codePointAt(0)!);
+  const match = /^(-)?(0x[0-9a-fA-F_]+|0o[0-7_]+|0b[01_]+|[0-9][0-9_]*)$/.exec(text);
+  if (!match) return null;
+  const value = BigInt(match[2].replace(/_/g, ""));
+  return match[1] ? -value : value;
+}
+
+/**
+ * Computes the values of an enum's variants: written ones as written, the
+ * others counting up from the previous one (or 0), as the compiler does.
+ * @param fieldCodes The variants' declarations, e.g. "read = 4" or "write" (see splitFieldHtml)
+ * @returns The value of each variant; null for the "_" of non-exhaustive enums
+ */
+export function getEnumValues(fieldCodes: string[]): (string | null)[] {
+  let previous: { value: bigint } | { expression: string; offset: number } = { value: -1n };
+  return fieldCodes.map((code) => {
+    const match = /^(@"(?:[^"\\]|\\.)*"|[A-Za-z_]\w*)\s*(?:=\s*([^]*?))?\s*,?$/.exec(code.trim());
+    if (!match || match[1] === "_") return null;
+
+    const written = match[2];
+    if (written !== undefined) {
+      const value = parseIntegerLiteral(written);
+      previous = value !== null ? { value } : { expression: written, offset: 0 };
+      return written;
+    }
+    if ("value" in previous) {
+      previous = { value: previous.value + 1n };
+      return previous.value.toString();
+    }
+    previous = { expression: previous.expression, offset: previous.offset + 1 };
+    const base = /^[\w.@]+$/.test(previous.expression) ? previous.expression : `(${previous.expression})`;
+    return `${base} + ${previous.offset}`;
+  });
+}
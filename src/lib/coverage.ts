@@ -0,0 +1,82 @@
+import { getAllModules } from "./docParser";
+import { getModuleCoverage } from "./pathGenerator";
+import type { ContainerCoverage, CoverageCount, UndocumentedItem } from "./types";
+
+export interface CoverageTotals {
+  declarations: CoverageCount;
+  fields: CoverageCount;
+  params: CoverageCount;
+  overall: CoverageCount; // All three together
+}
+
+export interface ModuleCoverage extends CoverageTotals {
+  name: string;
+  containers: (ContainerCoverage & { overall: CoverageCount })[]; // Containers with any public member
+}
+
+export interface CoverageReport extends CoverageTotals {
+  version: string;
+  modules: ModuleCoverage[];
+}
+
+// Memoized per version: built once, shared by the HTML and JSON summaries
+const reports = new Map<string, Promise<CoverageReport>>();
+
+const addCounts = (...counts: CoverageCount[]): CoverageCount => ({
+  documented: counts.reduce((sum, count) => sum + count.documented, 0),
+  total: counts.reduce((sum, count) => sum + count.total, 0),
+});
+
+function getTotals(items: Omit<CoverageTotals, "overall">[]): CoverageTotals {
+  const declarations = addCounts(...items.map((item) => item.declarations));
+  const fields = addCounts(...items.map((item) => item.fields));
+  const params = addCounts(...items.map((item) => item.params));
+  return { declarations, fields, params, overall: addCounts(declarations, fields, params) };
+}
+
+// Declarations first, then fields and params, each by FQN and name
+const KIND_ORDER: UndocumentedItem["kind"][] = ["declaration", "field", "param"];
+const compareItems = (a: UndocumentedItem, b: UndocumentedItem) =>
+  KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+  a.fqn.localeCompare(b.fqn) ||
+  (a.name ?? "").localeCompare(b.name ?? "");
+
+async function createCoverageReport(version: string): Promise<CoverageReport> {
+  const modules: ModuleCoverage[] = [];
+  for (const module of await getAllModules(version)) {
+    const containers = (await getModuleCoverage(module.name, version))
+      .map((container) => ({
+        ...container,
+        overall: addCounts(container.declarations, container.fields, container.params),
+        undocumented: [...container.undocumented].sort(compareItems),
+      }))
+      .filter((container) => container.overall.total > 0);
+    modules.push({ name: module.name, ...getTotals(containers), containers });
+  }
+  modules.sort((a, b) => a.name.localeCompare(b.name));
+  return { version, ...getTotals(modules), modules };
+}
+
+/**
+ * Returns the doc comment coverage of a version's public declarations, fields
+ * and params, per module and per container, with what is undocumented.
+ * Collected while generating the shards (see generateModuleShard).
+ * @param version Documented version
+ */
+export function getCoverageReport(version: string): Promise<CoverageReport> {
+  let report = reports.get(version);
+  if (!report) {
+    report = createCoverageReport(version);
+    reports.set(version, report);
+  }
+  return report;
+}
+
+/**
+ * Formats a coverage count as a percentage, e.g. "87.5%", or "n/a" when
+ * there is nothing to document.
+ */
+export function formatCoverage(count: CoverageCount): string {
+  if (count.total === 0) return "n/a";
+  return `${Math.floor((count.documented / count.total) * 1000) / 10}%`;
+}
@@ -0,0 +1,24 @@
+// Entry point of the declaration workers started by declarationWorkers.ts:
+// generates the shards of the modules sent by the build process. Emitted as
+// its own chunk of the build, see astro.config.mjs.
+import { parentPort, workerData } from "worker_threads";
+import { useResolvedAssets } from "./docParser";
+import { generateModuleShard, type ShardJob } from "./pathGenerator";
+import type { WorkerInput, WorkerResult } from "./declarationWorkers";
+
+const { version, assets } = workerData as WorkerInput;
+useResolvedAssets(version, assets);
+
+parentPort!.on("message", async (job: ShardJob | null) => {
+  if (!job) {
+    parentPort!.close();
+    return;
+  }
+  let result: WorkerResult;
+  try {
+    result = { module: job.module, summary: await generateModuleShard(version, job) };
+  } catch (error) {
+    result = { module: job.module, error: String(error) };
+  }
+  parentPort!.postMessage(result);
+});
@@ -0,0 +1,97 @@
+import os from "os";
+import { fileURLToPath } from "url";
+import { Worker } from "worker_threads";
+import type { ResolvedAssets } from "./assetSource";
+import type { GeneratedShards, ShardJob, ShardSummary } from "./pathGenerator";
+
+// Workers run their own entry, declarationWorker.ts, which the build emits as
+// a chunk of its own; astro.config.mjs points this URL at it
+const WORKER_SCRIPT = new URL("./declarationWorker.js", import.meta.url);
+// Workers need plain JavaScript: the bundled build qualifies, the dev server
+// (which serves this file as TypeScript) falls back to generating in-process
+const CAN_USE_WORKERS = /\.m?js$/.test(fileURLToPath(import.meta.url));
+
+// What every worker is started with
+export interface WorkerInput {
+  version: string;
+  assets: ResolvedAssets;
+}
+
+// Messages sent back for every job
+export type WorkerResult =
+  | { module: string; summary: ShardSummary }
+  | { module: string; error: string };
+
+/**
+ * Returns how many declaration workers to start for a number of modules to
+ * generate: `ZIG_DOCS_WORKERS` if set (0 disables them), otherwise one per
+ * spare CPU core. Returns 0 when generating in-process is as good, i.e. for
+ * a single module or a single worker.
+ */
+export function getWorkerCount(jobCount: number, env = process.env): number {
+  if (!CAN_USE_WORKERS) return 0;
+  const configured = Number.parseInt(env.ZIG_DOCS_WORKERS ?? "", 10);
+  const count = Math.min(
+    Number.isNaN(configured) ? os.availableParallelism() - 1 : configured,
+    jobCount
+  );
+  return count >= 2 ? count : 0;
+}
+
+/**
+ * Generates module shards in worker threads, each loading its own WASM
+ * instance from the already prepared assets. Modules are handed out one at a
+ * time, so a large module (e.g. std) doesn't hold up the others. If a worker
+ * crashes, the others are terminated and the returned promise rejects.
+ * @param version The version to generate
+ * @param assets Its assets, from getResolvedAssets
+ * @param jobs The modules to generate
+ * @param workerCount How many workers to start, see getWorkerCount
+ * @returns The summary of every module that generated, and the error of every one that failed
+ */
+export function generateShardsInWorkers(
+  version: string,
+  assets: ResolvedAssets,
+  jobs: ShardJob[],
+  workerCount: number
+): Promise<GeneratedShards> {
+  console.log(`Generating ${jobs.length} modules in ${workerCount} workers...`);
+  const results: GeneratedShards = { generated: new Map(), failed: new Map() };
+  const queue = [...jobs];
+  const workers: Worker[] = [];
+  let running = workerCount;
+  let settled = false;
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      for (const worker of workers) void worker.terminate();
+      reject(error);
+    };
+
+    for (let i = 0; i < workerCount; i++) {
+      const input: WorkerInput = { version, assets };
+      const worker = new Worker(WORKER_SCRIPT, { workerData: input });
+      workers.push(worker);
+      // A null job tells the worker to exit
+      const next = () => worker.postMessage(queue.shift() ?? null);
+
+      worker.on("message", (result: WorkerResult) => {
+        if ("error" in result) results.failed.set(result.module, result.error);
+        else results.generated.set(result.module, result.summary);
+        next();
+      });
+      worker.on("error", fail);
+      worker.on("exit", (code) => {
+        if (code !== 0) {
+          fail(new Error(`Declaration worker exited with code ${code}`));
+        } else if (--running === 0 && !settled) {
+          settled = true;
+          resolve(results);
+        }
+      });
+      next();
+    }
+  });
+}
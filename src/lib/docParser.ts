@@ -1,3 +1,4 @@
+import { createHash } from "crypto";
 import fs from "fs/promises";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -8,138 +9,112 @@ import {
   unwrapSlice32,
   unwrapSlice64,
   setInputString,
+  type WasmExports,
 } from "./wasmUtils";
 import * as DeclCategories from "./constants"; // Import all constants
-import * as cheerio from 'cheerio';
+import { readTarEntries, findLineRange, parseTestName } from "./sourceFiles";
+import { parseContainerKind, parseTypeConstructor } from "./containerKind";
+import { getSiteConfig, isModuleExposed } from "./siteConfig";
+import {
+  sanitizeHtml,
+  htmlToText,
+  getLinkedFqns,
+  getMemberName,
+  splitErrorHtml,
+  splitFieldHtml,
+} from "./htmlTransform";
+import { isContainerDecl, isFunctionDecl } from "./types";
+import type {
+  ContainerKind,
+  DeclCategory,
+  DeclData,
+  DeclIndex,
+  DeclReference,
+  DeclSummary,
+  Doctest,
+  ErrorEntry,
+  ErrorNode,
+  ModuleData,
+  ModuleInfo,
+} from "./types";
+import type { LineRange } from "./sourceFiles";
+import {
+  ensureAssets,
+  getConfiguredVersions,
+  type ResolvedAssets,
+} from "./assetSource";
 
 // Paths relative to project
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-// Adjusted paths relative to the new location of docParser.ts
-const WASM_PATH = path.resolve(__dirname, "../../assets/main.wasm");
-const SOURCES_PATH = path.resolve(__dirname, "../../assets/sources.tar");
+// Directory where downloaded assets are cached (see assetSource.ts)
+const ASSETS_DIR = path.resolve(__dirname, "../../assets");
+
+// One loaded WASM instance per documented version
+interface DocSet {
+  assets: ResolvedAssets; // Version and paths of the loaded assets
+  contentHash: string; // sha256 of main.wasm and sources.tar
+  wasmHash: string; // sha256 of main.wasm alone
+  exports: WasmExports;
+  memory: WebAssembly.Memory;
+  moduleList: ModuleInfo[];
+  tarball: Uint8Array;
+  sourceFiles: Map<string, string> | null; // Lazily decoded sources.tar
+  publicMembers: Map<DeclIndex, Set<DeclIndex>>; // Lazily listed, see isPrivateMember
+  declLines: Map<DeclIndex, LineRange | null>; // Lazily located, see declLineRange
+}
 
-// URLs for downloading the assets
-const WASM_URL = "https://ziglang.org/documentation/master/std/main.wasm";
-const SOURCES_URL = "https://ziglang.org/documentation/master/std/sources.tar";
+const docSets = new Map<string, Promise<DocSet>>();
+// Assets already prepared by another thread, see useResolvedAssets()
+const providedAssets = new Map<string, ResolvedAssets>();
 
-// Global WebAssembly state (keep these here)
-let wasmInstance: WebAssembly.Instance;
-export let wasmExports: any; // Make exports accessible if needed elsewhere
+// State of the active version. Every public function activates its version
+// with initWasm() and then talks to the WASM synchronously, so concurrent
+// builds of pages for different versions never see each other's instance.
+let activeDocSet: DocSet | null = null;
+export let wasmExports: WasmExports; // Make exports accessible if needed elsewhere
 let memory: WebAssembly.Memory;
-let moduleList: { name: string; rootDeclIndex: number }[] = [];
+let moduleList: ModuleInfo[] = [];
 
 // Re-export constants for convenience if pages import directly from docParser
 export * from "./constants";
 
+// --- WASM Initialization ---
+
 /**
- * Downloads and caches WASM assets if they don't exist.
- * This ensures that the required files are present before initializing WASM.
+ * Returns the documented versions, the default one first (see assetSource.ts).
  */
-async function downloadWasmAssets(): Promise<void> {
-  console.log("Checking for WASM assets...");
-
-  // Ensure the assets directory exists
-  const assetsDir = path.dirname(WASM_PATH);
-  try {
-    await fs.access(assetsDir);
-  } catch (error) {
-    console.log("Creating assets directory...");
-    await fs.mkdir(assetsDir, { recursive: true });
-  }
-
-  // Check and download main.wasm if needed
-  let wasmExists = false;
-  try {
-    await fs.access(WASM_PATH);
-    wasmExists = true;
-    console.log("main.wasm found in assets folder.");
-  } catch (error) {
-    console.log("main.wasm not found. Downloading from ziglang.org...");
-  }
-
-  // Check and download sources.tar if needed
-  let sourcesExists = false;
-  try {
-    await fs.access(SOURCES_PATH);
-    sourcesExists = true;
-    console.log("sources.tar found in assets folder.");
-  } catch (error) {
-    console.log("sources.tar not found. Downloading from ziglang.org...");
-  }
-
-  // Download files if they don't exist
-  const downloads: Promise<void>[] = [];
-
-  if (!wasmExists) {
-    downloads.push(
-      fetch(WASM_URL)
-        .then((response) => {
-          if (!response.ok) {
-            throw new Error(
-              `Failed to fetch main.wasm: ${response.status} ${response.statusText}`
-            );
-          }
-          return response.arrayBuffer();
-        })
-        .then((buffer) => fs.writeFile(WASM_PATH, Buffer.from(buffer)))
-        .then(() => console.log("main.wasm downloaded and saved successfully."))
-    );
-  }
-
-  if (!sourcesExists) {
-    downloads.push(
-      fetch(SOURCES_URL)
-        .then((response) => {
-          if (!response.ok) {
-            throw new Error(
-              `Failed to fetch sources.tar: ${response.status} ${response.statusText}`
-            );
-          }
-          return response.arrayBuffer();
-        })
-        .then((buffer) => fs.writeFile(SOURCES_PATH, Buffer.from(buffer)))
-        .then(() =>
-          console.log("sources.tar downloaded and saved successfully.")
-        )
-    );
-  }
-
-  if (downloads.length > 0) {
-    await Promise.all(downloads);
-    console.log("All required assets are now available.");
-  } else {
-    console.log("All required assets already exist.");
-  }
+export function getVersions(): string[] {
+  return getConfiguredVersions();
 }
 
-// --- WASM Initialization ---
-export async function initWasm() {
-  if (wasmInstance) return; // Already initialized
-
-  // Download and cache required assets if they don't exist
-  await downloadWasmAssets();
-
-  // Define __dirname for ES modules - Correct calculation relative to this file
-  const __filename = fileURLToPath(import.meta.url);
-  const __dirname = path.dirname(__filename);
+/**
+ * Returns the version to use in routes: undefined for the default version,
+ * which is served without a prefix, the version itself otherwise.
+ */
+export function getRouteVersion(version: string): string | undefined {
+  return version === getVersions()[0] ? undefined : version;
+}
 
-  // Correct paths relative to THIS file's location (src/lib)
-  const wasmPath = path.resolve(__dirname, "../../assets/main.wasm");
-  const tarballPath = path.resolve(__dirname, "../../assets/sources.tar");
+async function loadDocSet(version: string): Promise<DocSet> {
+  // Resolve the configured source and download the assets if needed
+  const resolvedAssets =
+    providedAssets.get(version) ?? (await ensureAssets(ASSETS_DIR, version));
 
   // Read the wasm file
-  const wasmBuffer = await fs.readFile(wasmPath);
+  const wasmBuffer = await fs.readFile(resolvedAssets.wasmPath);
 
   // Load sources.tar into memory
-  const tarballBuffer = await fs.readFile(tarballPath);
+  const tarballBuffer = await fs.readFile(resolvedAssets.sourcesPath);
+
+  let instanceMemory: WebAssembly.Memory | undefined;
 
   // Environment for WASM imports
   const importObject = {
     js: {
-      log: function (level: any, ptr: number, len: number) {
-        // Use decodeString directly here as wasmUtils might not be initialized yet
+      log: function (level: number, ptr: number, len: number) {
+        // Decode from this instance's memory; wasmUtils may point at another version
         const message = new TextDecoder().decode(
-          new Uint8Array(memory?.buffer, ptr, len) // Use optional chaining for safety during early init
+          new Uint8Array(instanceMemory?.buffer ?? new ArrayBuffer(0), ptr, len) // Memory is unset during early init
         );
         switch (level) {
           case 0:
@@ -159,38 +134,99 @@ export async function initWasm() {
   };
 
   // Compile and instantiate the wasm module
-  const wasmModule = await WebAssembly.instantiate(wasmBuffer, importObject);
-  wasmInstance = wasmModule.instance;
-  wasmExports = wasmInstance.exports as any; // Assign exports
-  memory = wasmExports.memory as WebAssembly.Memory; // Assign memory
-
-  // Initialize the utility functions with the instance details
-  initializeWasmUtils(memory, wasmExports);
+  const { instance } = await WebAssembly.instantiate(wasmBuffer, importObject);
+  const exports = instance.exports as unknown as WasmExports;
+  instanceMemory = exports.memory;
 
   // Load the tarball into wasm memory
   const tarballJsArray = new Uint8Array(tarballBuffer);
-  const ptr = wasmExports.alloc(tarballJsArray.length);
+  const ptr = exports.alloc(tarballJsArray.length);
   if (ptr === 0) throw new Error("WASM failed to allocate memory for tarball.");
   const tarballWasmArray = new Uint8Array(
-    memory.buffer,
+    instanceMemory.buffer,
     ptr,
     tarballJsArray.length
   );
   tarballWasmArray.set(tarballJsArray);
-  wasmExports.unpack(ptr, tarballJsArray.length); // Assuming 'unpack' is the function to process the tarball
+  exports.unpack(ptr, tarballJsArray.length); // Assuming 'unpack' is the function to process the tarball
   // Note: Consider freeing the tarball memory in WASM if 'unpack' doesn't consume it
-  // if (wasmExports.free) { wasmExports.free(ptr, tarballJsArray.length); }
+  // if (exports.free) { exports.free(ptr, tarballJsArray.length); }
+
+  const docSet: DocSet = {
+    assets: resolvedAssets,
+    contentHash: createHash("sha256").update(wasmBuffer).update(tarballBuffer).digest("hex"),
+    wasmHash: createHash("sha256").update(wasmBuffer).digest("hex"),
+    exports,
+    memory: instanceMemory,
+    moduleList: [],
+    tarball: tarballJsArray,
+    sourceFiles: null,
+    publicMembers: new Map(),
+    declLines: new Map(),
+  };
 
   // Update module list
+  activate(docSet);
   updateModuleList(); // Populate moduleList array
-  console.log("WASM Initialized and Tarball processed.");
+  docSet.moduleList = moduleList;
+  console.log(`WASM Initialized and Tarball processed for version "${version}".`);
+  return docSet;
+}
+
+function activate(docSet: DocSet): void {
+  if (activeDocSet === docSet) return;
+  activeDocSet = docSet;
+  wasmExports = docSet.exports;
+  memory = docSet.memory;
+  moduleList = docSet.moduleList;
+  // Point the utility functions at this instance
+  initializeWasmUtils(memory, wasmExports);
+}
+
+/**
+ * Loads the WASM instance of a version (once) and makes it the active one.
+ * @param version One of {@link getVersions}, defaults to the default version
+ */
+export async function initWasm(version: string = getVersions()[0]) {
+  let docSet = docSets.get(version);
+  if (!docSet) {
+    if (!getVersions().includes(version)) {
+      throw new Error(`Unknown version: ${version}`);
+    }
+    docSet = loadDocSet(version);
+    docSets.set(version, docSet);
+  }
+  activate(await docSet);
+}
+
+/**
+ * Returns the version label and paths of the assets a version was loaded from.
+ */
+export async function getResolvedAssets(version?: string): Promise<ResolvedAssets> {
+  await initWasm(version);
+  return activeDocSet!.assets;
+}
+
+/**
+ * Loads a version from assets another thread already prepared with
+ * ensureAssets, instead of resolving (and possibly downloading or packing)
+ * them again. Used by the declaration workers; must be called before the
+ * version is first initialized.
+ */
+export function useResolvedAssets(version: string, assets: ResolvedAssets): void {
+  providedAssets.set(version, assets);
 }
 
 // --- Internal Helper Functions ---
 
+// Sanitizes WASM HTML, pointing its links at the active version's routes
+function sanitize(html: string): string {
+  return sanitizeHtml(html, getRouteVersion(activeDocSet!.assets.version));
+}
+
 // Removed decodeString, unwrapString, unwrapSlice32, unwrapSlice64, setInputString (moved to wasmUtils.ts)
 
-function findDecl(fqn: string): number | null {
+function findDecl(fqn: string): DeclIndex | null {
   if (!wasmExports) throw new Error("WASM not initialized");
   setInputString(fqn);
   const result = wasmExports.find_decl();
@@ -199,20 +235,120 @@ function findDecl(fqn: string): number | null {
   return result === 0xffffffff ? null : result;
 }
 
-function fullyQualifiedName(declIndex: number): string {
+function fullyQualifiedName(declIndex: DeclIndex): string {
   if (!wasmExports) throw new Error("WASM not initialized");
   // Add check for invalid index if necessary
   if (declIndex === 0xffffffff) return "[Invalid Index]";
   return unwrapString(wasmExports.decl_fqn(declIndex));
 }
 
-function declIndexName(declIndex: number): string {
+function declIndexName(declIndex: DeclIndex): string {
   if (!wasmExports) throw new Error("WASM not initialized");
   // Add check for invalid index if necessary
   if (declIndex === 0xffffffff) return "[Invalid Index]";
   return unwrapString(wasmExports.decl_name(declIndex));
 }
 
+function categorize(declIndex: DeclIndex): DeclCategory {
+  return wasmExports.categorize_decl(declIndex, 0) as DeclCategory; // 0 = default context
+}
+
+/**
+ * Follows an alias (possibly through other aliases) to the declaration it
+ * refers to, keeping every declaration on the way.
+ * @returns The final declaration, its category, and the chain of declarations
+ *   after declIndex up to and including the final one (empty if not an alias)
+ */
+function resolveAlias(declIndex: DeclIndex): {
+  targetIndex: DeclIndex;
+  category: DeclCategory;
+  chain: DeclIndex[];
+} {
+  let targetIndex = declIndex;
+  let category = categorize(declIndex);
+  const chain: DeclIndex[] = [];
+  while (category === DeclCategories.CAT_alias) {
+    const nextIndex = wasmExports.get_aliasee(targetIndex);
+    // Check for resolution failure or loop
+    if (
+      nextIndex === 0xffffffff ||
+      nextIndex === declIndex ||
+      nextIndex === targetIndex ||
+      chain.includes(nextIndex)
+    ) {
+      console.warn(
+        `Could not resolve alias or alias loop detected for index ${declIndex}. Using index ${targetIndex}.`
+      );
+      break; // Keep the last valid index before failure/loop
+    }
+    targetIndex = nextIndex;
+    chain.push(targetIndex);
+    category = categorize(targetIndex);
+  }
+  return { targetIndex, category, chain };
+}
+
+// The container a type is written as, see parseContainerKind. Its header is
+// all that's read: listings would otherwise parse whole files for namespaces
+function containerKindOf(targetIndex: DeclIndex, sourceText?: string): ContainerKind | null {
+  return parseContainerKind(
+    sourceText ?? htmlToText(unwrapString(wasmExports.decl_source_html(targetIndex)).slice(0, 4096)),
+    declIndexName(targetIndex), // The source declares the target's name, not an alias'
+    unwrapString(wasmExports.decl_category_name(targetIndex))
+  );
+}
+
+// Lists a container's members, including the private ones when configured
+// (see SiteConfig.includePrivate)
+function namespaceMembers(declIndex: DeclIndex): DeclIndex[] {
+  const includePrivate = getSiteConfig().includePrivate;
+  return Array.from(unwrapSlice32(wasmExports.namespace_members(declIndex, includePrivate)));
+}
+
+// Locates a declaration inside its file, searching only the lines of its
+// parent container: a container can't declare a name twice or shadow an outer
+// one, so a snippet naming the declaration only matches once in there
+function declLineRange(declIndex: DeclIndex, sourceText?: string): LineRange | null {
+  const cached = activeDocSet!.declLines.get(declIndex);
+  if (cached !== undefined) return cached;
+  const filePath = unwrapString(wasmExports.decl_file_path(declIndex));
+  const fileContent = activeSourceFiles().get(filePath);
+  const lines = fileContent
+    ? findLineRange(
+        fileContent,
+        sourceText ?? htmlToText(unwrapString(wasmExports.decl_source_html(declIndex))),
+        parentLineRange(declIndex, filePath)
+      )
+    : null;
+  activeDocSet!.declLines.set(declIndex, lines);
+  return lines;
+}
+
+// The lines of a declaration's parent container, null when it spans the whole
+// file (file roots) or lives in another one
+function parentLineRange(declIndex: DeclIndex, filePath: string): LineRange | null {
+  const parent = wasmExports.decl_parent(declIndex);
+  if (parent === 0xffffffff || wasmExports.decl_parent(parent) === 0xffffffff) return null;
+  if (unwrapString(wasmExports.decl_file_path(parent)) !== filePath) return null;
+  return declLineRange(parent);
+}
+
+// Whether a declaration is a non-pub member of its parent. Always false
+// unless private members are included, since only pub ones are listed then.
+function isPrivateMember(declIndex: DeclIndex, fqn: string): boolean {
+  if (!getSiteConfig().includePrivate) return false;
+  const parentFqn = fqn.split(".").slice(0, -1).join(".");
+  const parentIndex = parentFqn ? findDecl(parentFqn) : null;
+  if (parentIndex === null) return false;
+  const { targetIndex } = resolveAlias(parentIndex);
+  let publicMembers = activeDocSet!.publicMembers.get(targetIndex);
+  if (!publicMembers) {
+    publicMembers = new Set(unwrapSlice32(wasmExports.namespace_members(targetIndex, false)));
+    activeDocSet!.publicMembers.set(targetIndex, publicMembers);
+  }
+  return !publicMembers.has(declIndex);
+}
+
 function updateModuleList(): void {
   if (!wasmExports)
     throw new Error("WASM not initialized when updateModuleList called");
@@ -236,7 +372,9 @@ function updateModuleList(): void {
 
     const rootDeclIndex = wasmExports.find_module_root(i);
 
-    if (rootDeclIndex !== 0xffffffff) {
+    if (!isModuleExposed(name)) {
+      // Hidden by the modules option of zigdocs.config.ts
+    } else if (rootDeclIndex !== 0xffffffff) {
       moduleList.push({ name, rootDeclIndex });
     } else {
       console.warn(
@@ -258,24 +396,109 @@ function updateModuleList(): void {
 
 // --- Public API functions ---
 
-export async function getAllModules() {
-  await initWasm();
+// Decodes sources.tar of the active version synchronously, once
+function activeSourceFiles(): Map<string, string> {
+  if (!activeDocSet) throw new Error("WASM not initialized");
+  activeDocSet.sourceFiles ??= new Map(
+    readTarEntries(activeDocSet.tarball).map((file) => [
+      file.path,
+      file.content,
+    ])
+  );
+  return activeDocSet.sourceFiles;
+}
+
+/**
+ * Returns the contents of every file in sources.tar, keyed by its path in
+ * the tarball (e.g. "std/mem.zig"). Decoded once and cached.
+ */
+export async function getSourceFiles(version?: string): Promise<Map<string, string>> {
+  await initWasm(version);
+  return activeSourceFiles();
+}
+
+/**
+ * Returns the version label of the loaded assets, e.g. "0.14.0" or "master".
+ */
+export async function getZigVersion(version?: string): Promise<string> {
+  await initWasm(version);
+  return activeDocSet!.assets.version;
+}
+
+/**
+ * Returns a hash of the main.wasm and sources.tar a version was loaded from,
+ * changing whenever either asset does. Used to invalidate build caches.
+ */
+export async function getContentHash(version?: string): Promise<string> {
+  await initWasm(version);
+  return activeDocSet!.contentHash;
+}
+
+// The module and the modules it imports by name (`@import("std")`), directly
+// or through each other, sorted
+function moduleDependencies(moduleName: string): string[] {
+  const moduleNames = new Set(moduleList.map((m) => m.name));
+  const dependencies = new Set([moduleName]);
+  const queue = [moduleName];
+  for (let current = queue.pop(); current !== undefined; current = queue.pop()) {
+    for (const [filePath, content] of activeSourceFiles()) {
+      if (!filePath.startsWith(`${current}/`)) continue;
+      for (const [, imported] of content.matchAll(/@import\(\s*"([^"]+)"\s*\)/g)) {
+        if (moduleNames.has(imported) && !dependencies.has(imported)) {
+          dependencies.add(imported);
+          queue.push(imported);
+        }
+      }
+    }
+  }
+  return Array.from(dependencies).sort();
+}
+
+/**
+ * Returns a hash of everything a module's generated declarations depend on:
+ * main.wasm, the files in sources.tar of the module and of the modules it
+ * imports, and its root declaration index. Imported modules count since
+ * aliases, links, references and error origins resolve into them. Declaration
+ * indices are assigned in tarball order, so the root index changes whenever an
+ * edit elsewhere renumbers this module's declarations.
+ * Used to regenerate only the modules that changed.
+ */
+export async function getModuleHash(moduleName: string, version?: string): Promise<string> {
+  await initWasm(version);
+  const moduleInfo = moduleList.find((m) => m.name === moduleName);
+  if (!moduleInfo) {
+    throw new Error(`Module not found: ${moduleName}`);
+  }
+  const hash = createHash("sha256")
+    .update(`${activeDocSet!.wasmHash}\n${moduleInfo.rootDeclIndex}\n`);
+  const dependencies = moduleDependencies(moduleName);
+  for (const [filePath, content] of activeSourceFiles()) {
+    if (dependencies.includes(filePath.slice(0, filePath.indexOf("/")))) {
+      hash.update(`${filePath}\n${content.length}\n`).update(content);
+    }
+  }
+  return hash.digest("hex");
+}
+
+export async function getAllModules(version?: string): Promise<ModuleInfo[]> {
+  await initWasm(version);
   return moduleList;
 }
 
-export async function getModuleData(moduleName: string) {
-  await initWasm();
+export async function getModuleData(
+  moduleName: string,
+  version?: string
+): Promise<ModuleData> {
+  await initWasm(version);
   const moduleInfo = moduleList.find((m) => m.name === moduleName);
   if (!moduleInfo) {
     throw new Error(`Module not found: ${moduleName}`);
   }
 
   const rootDeclIndex = moduleInfo.rootDeclIndex;
-  const memberIndices = unwrapSlice32(
-    wasmExports.namespace_members(rootDeclIndex, false) // false = exclude private members
-  );
+  const memberIndices = namespaceMembers(rootDeclIndex);
 
-  const declarations = await processDeclarations(Array.from(memberIndices));
+  const declarations = processDeclarationsSync(memberIndices);
 
   const docsHtml = unwrapString(
     wasmExports.decl_docs_html(rootDeclIndex, false) // false = full docs
@@ -286,39 +509,30 @@ export async function getModuleData(moduleName: string) {
   return {
     name: moduleName,
     rootDeclIndex: rootDeclIndex,
-    docs: parseHTMLToCode(docsHtml),
+    filePath: unwrapString(wasmExports.decl_file_path(rootDeclIndex)),
+    docs: sanitize(docsHtml),
     declarations: declarations,
     fields: Array.from(fieldIndices),
   };
 }
 
 // Helper to process a list of declaration indices into structured data
-export async function processDeclarations(memberIndices: number[]) {
-  if (!wasmExports) {
-    console.warn("WASM not initialized. Cannot process declarations.");
-    await initWasm();
-  };
+export async function processDeclarations(
+  memberIndices: DeclIndex[],
+  version?: string
+): Promise<DeclSummary[]> {
+  await initWasm(version);
+  return processDeclarationsSync(memberIndices);
+}
 
-  const declarations = [];
+// Same as processDeclarations, for callers that already activated their version
+function processDeclarationsSync(memberIndices: DeclIndex[]): DeclSummary[] {
+  const declarations: DeclSummary[] = [];
   for (let memberIndex of memberIndices) {
     let originalIndex = memberIndex;
-    let category = wasmExports.categorize_decl(memberIndex, 0); // 0 = default context
 
     // Resolve aliases
-    let targetIndex = memberIndex;
-    while (category === DeclCategories.CAT_alias) {
-      const nextIndex = wasmExports.get_aliasee(targetIndex);
-      // Check for resolution failure or loop
-      if (nextIndex === 0xffffffff || nextIndex === targetIndex) {
-        console.warn(
-          `Alias resolution failed or loop detected for index ${originalIndex}. Using original index ${targetIndex}.`
-        );
-        // Keep targetIndex as the last valid index before failure/loop
-        break;
-      }
-      targetIndex = nextIndex;
-      category = wasmExports.categorize_decl(targetIndex, 0);
-    }
+    const { targetIndex, category, chain } = resolveAlias(memberIndex);
 
     // Skip if resolution somehow ended on an invalid index (shouldn't happen if break works)
     if (targetIndex === 0xffffffff) continue;
@@ -326,15 +540,19 @@ export async function processDeclarations(memberIndices: number[]) {
     const name = declIndexName(originalIndex); // Use original name (alias name)
     const fqn = fullyQualifiedName(originalIndex); // Use original FQN for linking
     const targetFqn = fullyQualifiedName(targetIndex); // FQN of the actual declaration
-    const docsShortHtml = unwrapString(
+    const docsShortHtml = sanitize(unwrapString(
       wasmExports.decl_docs_html(targetIndex, true) // true = short docs of target
-    );
-    const typeHtml = unwrapString(wasmExports.decl_type_html(targetIndex)); // Type HTML of target
+    ));
+    const typeHtml = sanitize(unwrapString(wasmExports.decl_type_html(targetIndex))); // Type HTML of target
     const protoHtmlShort =
       category === DeclCategories.CAT_function ||
       category === DeclCategories.CAT_type_function
-        ? parseHTMLToCode(unwrapString(wasmExports.decl_fn_proto_html(targetIndex, true))) // true = short proto
+        ? sanitize(unwrapString(wasmExports.decl_fn_proto_html(targetIndex, true))) // true = linkify the function name
         : null;
+    const isContainer =
+      category === DeclCategories.CAT_container ||
+      category === DeclCategories.CAT_type ||
+      category === DeclCategories.CAT_namespace;
 
     declarations.push({
       originalIndex: originalIndex,
@@ -342,20 +560,31 @@ export async function processDeclarations(memberIndices: number[]) {
       name: name,
       fqn: fqn,
       targetFqn: targetFqn,
+      aliasChain: chain.map(fullyQualifiedName),
+      isPrivate: isPrivateMember(originalIndex, fqn),
       category: category, // Category of the target
+      categoryName: unwrapString(wasmExports.decl_category_name(targetIndex)),
       docsShort: docsShortHtml,
       typeHtml: typeHtml,
       protoHtmlShort: protoHtmlShort,
+      containerKind: isContainer ? containerKindOf(targetIndex) : null,
+      typeConstructor:
+        category === DeclCategories.CAT_type_function
+          ? parseTypeConstructor(htmlToText(unwrapString(wasmExports.decl_source_html(targetIndex))))
+          : null,
     });
   }
   return declarations;
 }
 
-export async function getDeclData(identifier: number | string) {
-  await initWasm();
+export async function getDeclData(
+  identifier: DeclIndex | string,
+  version?: string
+): Promise<DeclData> {
+  await initWasm(version);
 
-  let declIndex: number | null;
-  let originalIndex: number | null;
+  let declIndex: DeclIndex;
+  let originalIndex: DeclIndex | null;
 
   if (typeof identifier === "string") {
     originalIndex = findDecl(identifier);
@@ -373,42 +602,35 @@ export async function getDeclData(identifier: number | string) {
     }
   }
 
-  let category = wasmExports.categorize_decl(declIndex, 0);
-  const isAlias = category === DeclCategories.CAT_alias;
-  let targetIndex = declIndex;
-  let targetFqn = "";
+  const isAlias = categorize(declIndex) === DeclCategories.CAT_alias;
 
   // Resolve alias if necessary
-  while (category === DeclCategories.CAT_alias) {
-    const nextIndex: number = wasmExports.get_aliasee(targetIndex);
-    if (nextIndex === 0xffffffff || nextIndex === targetIndex) {
-      console.warn(
-        `Could not resolve alias or alias loop detected for index ${originalIndex}. Using index ${targetIndex}.`
-      );
-      break; // Stop resolution
-    }
-    targetIndex = nextIndex;
-    category = wasmExports.categorize_decl(targetIndex, 0);
-  }
+  const { targetIndex, category, chain } = resolveAlias(declIndex);
 
   // Get FQN of the final target
-  targetFqn = fullyQualifiedName(targetIndex);
+  const targetFqn = fullyQualifiedName(targetIndex);
+
+  const filePath = unwrapString(wasmExports.decl_file_path(targetIndex));
+  const rawSourceHtml = unwrapString(wasmExports.decl_source_html(targetIndex));
+  const sourceText = htmlToText(rawSourceHtml);
+  const fileContent = activeSourceFiles().get(filePath);
 
   // Base declaration data
-  const data: any = {
+  const base = {
     index: targetIndex, // The resolved index
     originalIndex: originalIndex, // The index requested (could be alias)
     name: declIndexName(originalIndex), // Always use original name
     fqn: fullyQualifiedName(originalIndex), // Always use original FQN
     targetFqn: targetFqn, // FQN of the resolved declaration
-    category: category, // Category of the resolved declaration
+    aliasChain: chain.map(fullyQualifiedName), // Aliases followed, ending with targetFqn
+    isPrivate: isPrivateMember(originalIndex, fullyQualifiedName(originalIndex)),
     categoryName: unwrapString(wasmExports.decl_category_name(targetIndex)),
-    filePath: unwrapString(wasmExports.decl_file_path(targetIndex)),
-    docs: parseHTMLToCode(unwrapString(wasmExports.decl_docs_html(targetIndex, false))), // false = Full docs
-    sourceHtml: parseHTMLToCode(
-      unwrapString(wasmExports.decl_source_html(targetIndex))
-    ),
-    typeHtml: parseHTMLToCode(
+    filePath: filePath,
+    // Line range of the declaration inside filePath, null if it couldn't be located
+    sourceLines: declLineRange(targetIndex, sourceText),
+    docs: sanitize(unwrapString(wasmExports.decl_docs_html(targetIndex, false))), // false = Full docs
+    sourceHtml: sanitize(rawSourceHtml),
+    typeHtml: sanitize(
       unwrapString(wasmExports.decl_type_html(targetIndex))
     ), // Type for vars, fields etc.
     isAlias: isAlias, // Was the original identifier an alias?
@@ -417,121 +639,226 @@ export async function getDeclData(identifier: number | string) {
   // Add category-specific data based on the *target* declaration's category
   switch (category) {
     case DeclCategories.CAT_function:
-    case DeclCategories.CAT_type_function:
-      data.protoHtml = parseHTMLToCode(unwrapString(
-        wasmExports.decl_fn_proto_html(targetIndex, false) // false = Full prototype
-      ));
-      data.params = Array.from(
-        unwrapSlice32(wasmExports.decl_params(targetIndex))
-      );
-      data.doctestHtml = parseHTMLToCode(unwrapString(
-        wasmExports.decl_doctest_html(targetIndex)
-      ));
+    case DeclCategories.CAT_type_function: {
+      let errorSetBaseDecl: DeclIndex | undefined;
+      let errorSetNodes: ErrorNode[] = [];
       const errorSetNode = wasmExports.fn_error_set(targetIndex);
       if (errorSetNode !== 0n) {
         // Assuming 0n indicates no error set
-        data.errorSetBaseDecl = wasmExports.fn_error_set_decl(
+        errorSetBaseDecl = wasmExports.fn_error_set_decl(
           targetIndex,
           errorSetNode
         );
         // Check if errorSetBaseDecl is valid before proceeding
-        if (data.errorSetBaseDecl !== 0xffffffff) {
-          data.errorSetNodes = Array.from(
+        if (errorSetBaseDecl !== 0xffffffff) {
+          errorSetNodes = Array.from(
             unwrapSlice64(
-              wasmExports.error_set_node_list(
-                data.errorSetBaseDecl,
-                errorSetNode
-              )
+              wasmExports.error_set_node_list(errorSetBaseDecl, errorSetNode)
             )
           );
         } else {
           console.warn(
             `fn_error_set_decl returned invalid index for target ${targetIndex}, node ${errorSetNode}`
           );
-          data.errorSetNodes = [];
         }
-      } else {
-        data.errorSetNodes = []; // Ensure array exists even if empty
       }
-      break;
+      return {
+        ...base,
+        category,
+        protoHtml: sanitize(unwrapString(
+          wasmExports.decl_fn_proto_html(targetIndex, false) // false = don't linkify the function name
+        )),
+        params: Array.from(unwrapSlice32(wasmExports.decl_params(targetIndex))),
+        doctest: getDoctest(targetIndex, base.name, filePath, fileContent),
+        errorSetBaseDecl,
+        errorSetNodes,
+        typeConstructor:
+          category === DeclCategories.CAT_type_function ? parseTypeConstructor(sourceText) : null,
+      };
+    }
 
     case DeclCategories.CAT_container:
     case DeclCategories.CAT_type:
     case DeclCategories.CAT_namespace:
-      data.fields = Array.from(
-        unwrapSlice32(wasmExports.decl_fields(targetIndex))
-      );
-      data.members = Array.from(
-        unwrapSlice32(wasmExports.namespace_members(targetIndex, false)) // false = public members
-      );
-      data.doctestHtml = unwrapString(
-        wasmExports.decl_doctest_html(targetIndex)
-      );
-      break;
+      return {
+        ...base,
+        category,
+        fields: Array.from(unwrapSlice32(wasmExports.decl_fields(targetIndex))),
+        members: namespaceMembers(targetIndex),
+        doctest: getDoctest(targetIndex, base.name, filePath, fileContent),
+        containerKind: containerKindOf(targetIndex, sourceText),
+      };
 
     case DeclCategories.CAT_error_set:
       // Assuming decl_error_set gives nodes *directly* associated with this set decl
-      data.errorSetNodes = Array.from(
-        unwrapSlice64(wasmExports.decl_error_set(targetIndex))
-      );
-      // Error sets might also have a base decl if they are defined relative to another
-      // Check if WASM provides this info, e.g., wasmExports.error_set_base_decl(targetIndex)
-      // data.errorSetBaseDecl = wasmExports.error_set_base_decl(targetIndex); // Hypothetical
-      break;
+      return {
+        ...base,
+        category,
+        errorSetNodes: Array.from(
+          unwrapSlice64(wasmExports.decl_error_set(targetIndex))
+        ),
+      };
 
     // Variables, Constants, Primitives usually don't need more than base data + typeHtml
-    case DeclCategories.CAT_global_variable:
-    case DeclCategories.CAT_global_const:
-    case DeclCategories.CAT_primitive:
-      break;
+    default:
+      return { ...base, category };
   }
+}
 
-  // Ensure arrays exist even if empty
-  data.params = data.params ?? [];
-  data.fields = data.fields ?? [];
-  data.members = data.members ?? [];
-  data.errorSetNodes = data.errorSetNodes ?? [];
+// Reads the doctest of a declaration, located next to the declaration in its
+// parent container
+function getDoctest(
+  declIndex: DeclIndex,
+  name: string,
+  filePath: string,
+  fileContent: string | undefined
+): Doctest | null {
+  const rawHtml = unwrapString(wasmExports.decl_doctest_html(declIndex));
+  const code = htmlToText(rawHtml);
+  if (!code.trim()) return null;
+  return {
+    name: parseTestName(code) ?? name,
+    code,
+    html: sanitize(rawHtml),
+    sourceLines: fileContent
+      ? findLineRange(fileContent, code, parentLineRange(declIndex, filePath))
+      : null,
+  };
+}
 
-  return data;
+/**
+ * Finds the declarations a declaration mentions: the types in a function's
+ * parameters and return type, or in a container's fields. Scanned from the
+ * links in the WASM's prototype, parameter and field HTML.
+ * @param declData The declaration, as returned by getDeclData
+ * @returns The mentioned declarations, each once; parameters win over the return type
+ */
+export async function getDeclReferences(
+  declData: DeclData,
+  version?: string
+): Promise<DeclReference[]> {
+  await initWasm(version);
+  const references = new Map<string, DeclReference["kind"]>();
+  const add = (html: string, kind: DeclReference["kind"]) => {
+    for (const fqn of getLinkedFqns(html)) {
+      if (!references.has(fqn)) references.set(fqn, kind);
+    }
+  };
+
+  if (isFunctionDecl(declData)) {
+    for (const paramIndex of declData.params) {
+      add(unwrapString(wasmExports.decl_param_html(declData.index, paramIndex)), "parameter");
+    }
+    // Whatever the prototype mentions besides the parameters is in the return type
+    add(unwrapString(wasmExports.decl_fn_proto_html(declData.index, false)), "return");
+  } else if (isContainerDecl(declData)) {
+    for (const fieldIndex of declData.fields) {
+      add(unwrapString(wasmExports.decl_field_html(declData.index, fieldIndex)), "field");
+    }
+  }
+
+  references.delete(declData.fqn);
+  references.delete(declData.targetFqn);
+  return Array.from(references, ([fqn, kind]) => ({ fqn, kind }));
+}
+
+/**
+ * Finds the declarations a declaration's doc comment links to, e.g. from
+ * "See [std.mem.Allocator]", for the dangling links of the build report.
+ * @param declData The declaration, as returned by getDeclData
+ * @returns The linked FQNs, each once
+ */
+export async function getDocLinks(declData: DeclData, version?: string): Promise<string[]> {
+  await initWasm(version);
+  return getLinkedFqns(unwrapString(wasmExports.decl_docs_html(declData.index, false)));
+}
+
+/**
+ * Tells which fields of a container or parameters of a function have a doc
+ * comment, for the coverage report. Unnamed ones ("_") are left out.
+ * @param declIndex The container or function
+ * @param kind Whether `indices` are field or parameter indices
+ * @param indices The fields or parameters, see ContainerDecl and FunctionDecl
+ */
+export async function getMemberDocs(
+  declIndex: DeclIndex,
+  kind: "field" | "param",
+  indices: number[],
+  version?: string
+): Promise<{ name: string; documented: boolean }[]> {
+  await initWasm(version);
+  const members = [];
+  for (const index of indices) {
+    const html = unwrapString(
+      kind === "field"
+        ? wasmExports.decl_field_html(declIndex, index)
+        : wasmExports.decl_param_html(declIndex, index)
+    );
+    const name = getMemberName(html);
+    if (name) members.push({ name, documented: splitFieldHtml(html).docsHtml !== "" });
+  }
+  return members;
 }
 
 // --- Data Fetching Helpers for Specific Parts ---
 
 export async function getParamData(
-  declIndex: number,
-  paramIndex: number
+  declIndex: DeclIndex,
+  paramIndex: number,
+  version?: string
 ): Promise<{ html: string }> {
-  await initWasm();
+  await initWasm(version);
   // TODO: Add validation: check if declIndex is actually a function/type_function?
-  const html = parseHTMLToCode(unwrapString(wasmExports.decl_param_html(declIndex, paramIndex)));
+  const html = sanitize(unwrapString(wasmExports.decl_param_html(declIndex, paramIndex)));
   return { html };
 }
 
 export async function getFieldData(
-  declIndex: number,
-  fieldIndex: number
+  declIndex: DeclIndex,
+  fieldIndex: number,
+  version?: string
 ): Promise<{ html: string }> {
-  await initWasm();
+  await initWasm(version);
   // TODO: Add validation: check if declIndex is actually a container/type?
-  const html = parseHTMLToCode(unwrapString(wasmExports.decl_field_html(declIndex, fieldIndex)));
+  const html = sanitize(unwrapString(wasmExports.decl_field_html(declIndex, fieldIndex)));
   return { html };
 }
 
 export async function getErrorData(
-  baseDeclIndex: number, // The index relative to which the error node is defined
-  errorNode: bigint
+  baseDeclIndex: DeclIndex, // The index relative to which the error node is defined
+  errorNode: ErrorNode,
+  version?: string
 ): Promise<{ html: string }> {
-  await initWasm();
+  await initWasm(version);
   // Validate baseDeclIndex?
   if (baseDeclIndex === 0xffffffff) {
     console.error(`getErrorData called with invalid baseDeclIndex.`);
     return { html: "[Error: Invalid Base Index]" };
   }
-  const html = unwrapString(wasmExports.error_html(baseDeclIndex, errorNode));
+  const html = sanitize(unwrapString(wasmExports.error_html(baseDeclIndex, errorNode)));
   return { html };
 }
 
-function parseHTMLToCode(html: string): string {
-  const $ = cheerio.load(html);
-  return $("body").text();
+/**
+ * Lists the members of an error set with their docs and the declaration each
+ * one is written in. The WASM already expands merged sets (`A || B`) into
+ * their members, so the origin is what tells them apart.
+ * @param baseDeclIndex The declaration the error set is relative to: the error set itself, or a function's errorSetBaseDecl
+ * @param errorNodes The error set's members, see ErrorSetDecl and FunctionDecl
+ * @returns One entry per error, in declaration order
+ */
+export async function getErrorSetErrors(
+  baseDeclIndex: DeclIndex,
+  errorNodes: ErrorNode[],
+  version?: string
+): Promise<ErrorEntry[]> {
+  await initWasm(version);
+  if (baseDeclIndex === 0xffffffff) return [];
+  return errorNodes.map((errorNode) => {
+    const html = sanitize(unwrapString(wasmExports.error_html(baseDeclIndex, errorNode)));
+    return {
+      ...splitErrorHtml(html),
+      originFqn: fullyQualifiedName(Number(errorNode >> 32n)),
+    };
+  });
 }
@@ -0,0 +1,194 @@
+import * as cheerio from "cheerio";
+import { getDeclPath, getSourcePath, withBase } from "./pathUtils";
+
+// Tags the WASM emits for docs (markdown), prototypes, types and source
+const ALLOWED_TAGS = new Set([
+  "a", "p", "br", "hr", "span", "div",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+  "ul", "ol", "li", "dl", "dt", "dd",
+  "pre", "code", "blockquote",
+  "em", "strong", "b", "i", "del", "sup", "sub",
+  "table", "thead", "tbody", "tr", "th", "td",
+  "img",
+]);
+
+// Tags whose content must never reach the page
+const DROPPED_TAGS = new Set(["script", "style", "iframe", "object", "embed", "template"]);
+
+const ALLOWED_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href", "title"]),
+  img: new Set(["src", "alt", "title"]),
+  th: new Set(["align"]),
+  td: new Set(["align"]),
+  ol: new Set(["start"]),
+};
+
+// Schemes links and images may use; relative URLs resolve to http:
+const ALLOWED_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+// Parses the URL like a browser would, which drops tabs and newlines inside
+// it ("java\tscript:"), and checks the resulting scheme
+function isAllowedUrl(url: string): boolean {
+  try {
+    return ALLOWED_PROTOCOLS.has(new URL(url, "http://x").protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rewrites a link emitted by the WASM into a route of this site.
+ * The WASM targets the official docs' hash router, so "#std.mem.Allocator"
+ * becomes "<base>/modules/std/mem/Allocator" and "#src/std/mem.zig" becomes
+ * "<base>/src/std/mem.zig". Relative, http(s) and mailto links are kept,
+ * any other scheme is dropped.
+ * @param href The href as emitted by the WASM
+ * @param version Route version of the docs the link belongs to (see getDeclPath)
+ * @returns The rewritten href, or null if the link should be removed
+ */
+export function rewriteHref(href: string, version?: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed.startsWith("#")) return isAllowedUrl(trimmed) ? trimmed : null;
+
+  let target = trimmed.slice(1);
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep the raw fragment if it isn't valid percent-encoding
+  }
+  if (!target) return null;
+  if (target.startsWith("src/")) {
+    return withBase(getSourcePath(target.slice("src/".length), null, version));
+  }
+  if (/^[\w@"]/.test(target)) {
+    return withBase(getDeclPath(target, version));
+  }
+  return trimmed;
+}
+
+/**
+ * Collects the declarations an HTML fragment from the WASM links to, e.g.
+ * "std.mem.Allocator" for `<a href="#std.mem.Allocator">`. Must be given the
+ * raw HTML, before sanitizeHtml rewrites the links.
+ * @param html Raw HTML from the WASM
+ * @returns The linked FQNs, without duplicates
+ */
+export function getLinkedFqns(html: string): string[] {
+  if (!html) return [];
+  const $ = cheerio.load(html, null, false);
+  const fqns = new Set<string>();
+  for (const element of $("a[href^='#']").toArray()) {
+    let target = $(element).attr("href")!.trim().slice(1);
+    try {
+      target = decodeURIComponent(target);
+    } catch {
+      // Keep the raw fragment if it isn't valid percent-encoding
+    }
+    if (target && !target.startsWith("src/") && /^[\w@"]/.test(target)) {
+      fqns.add(target);
+    }
+  }
+  return Array.from(fqns);
+}
+
+/**
+ * Sanitizes an HTML fragment produced by the WASM. Keeps markdown structure,
+ * token highlighting classes (`tok-*`), code block languages (`language-*`) and anchors, rewriting the anchors to
+ * this site's routes. Unknown tags are unwrapped, keeping their text.
+ * @param html Raw HTML from the WASM
+ * @param version Route version used when rewriting links (see getDeclPath)
+ * @returns Sanitized HTML, safe to render with set:html
+ */
+export function sanitizeHtml(html: string, version?: string): string {
+  if (!html) return "";
+  const $ = cheerio.load(html, null, false);
+
+  for (const element of $("*").toArray()) {
+    if (!("attribs" in element)) continue; // Only elements carry tags and attributes
+    const tag = element.tagName.toLowerCase();
+    const $element = $(element);
+
+    if (DROPPED_TAGS.has(tag)) {
+      $element.remove();
+      continue;
+    }
+
+    // A fenced code block's language, written as its code element's class
+    if (tag === "code" && $element.parent().is("pre")) {
+      const language = /^(?:language-)?([\w+-]+)$/.exec(element.attribs.class ?? "")?.[1];
+      if (language && !language.startsWith("tok-")) $element.attr("class", `language-${language}`);
+    }
+
+    for (const name of Object.keys(element.attribs)) {
+      const keepClass =
+        name === "class" &&
+        (/^tok-[\w-]+$/.test(element.attribs[name]) ||
+          (tag === "code" && /^language-[\w+-]+$/.test(element.attribs[name])));
+      if (!keepClass && !ALLOWED_ATTRIBUTES[tag]?.has(name)) {
+        $element.removeAttr(name);
+      }
+    }
+
+    if (tag === "a" && element.attribs.href !== undefined) {
+      const href = rewriteHref(element.attribs.href, version);
+      if (href === null) $element.removeAttr("href");
+      else $element.attr("href", href);
+    }
+    if (tag === "img" && !isAllowedUrl((element.attribs.src ?? "").trim())) {
+      $element.remove();
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      $element.replaceWith($element.contents());
+    }
+  }
+
+  return $.html();
+}
+
+/**
+ * Flattens an HTML fragment to its text content.
+ * Used where only plain text is wanted (search index, source lookups).
+ */
+export function htmlToText(html: string): string {
+  if (!html) return "";
+  return cheerio.load(html, null, false).root().text();
+}
+
+/**
+ * Splits the HTML of a field or parameter, a `<pre>` holding its declaration
+ * followed by its docs, into the declaration's text and the docs' HTML.
+ */
+export function splitFieldHtml(html: string): { code: string; docsHtml: string } {
+  if (!html) return { code: "", docsHtml: "" };
+  const $ = cheerio.load(html, null, false);
+  const pre = $("pre").first();
+  if (pre.length === 0) return { code: $.root().text().trim(), docsHtml: "" };
+  const code = pre.text().trim();
+  pre.remove();
+  return { code, docsHtml: $.html().trim() };
+}
+
+/**
+ * Reads the name of a field or parameter from its HTML (see splitFieldHtml),
+ * e.g. "ptr" for "ptr: *anyopaque" or "T" for "comptime T: type".
+ * @returns The name, or null for unnamed ones ("_", "...")
+ */
+export function getMemberName(html: string): string | null {
+  const { code } = splitFieldHtml(html);
+  const match = /^(?:(?:comptime|noalias)\s+)?(?:@"((?:[^"\\]|\\.)*)"|([A-Za-z_]\w*))/.exec(code);
+  const name = match?.[1] ?? match?.[2];
+  return name && name !== "_" ? name : null;
+}
+
+/**
+ * Splits the HTML of an error set member, "<dt>Name <a>Set</a></dt><dd>docs</dd>",
+ * into the error's name and the docs' HTML.
+ */
+export function splitErrorHtml(html: string): { name: string; docsHtml: string } {
+  if (!html) return { name: "", docsHtml: "" };
+  const $ = cheerio.load(html, null, false);
+  const name = $("dt").first().contents().first().text().trim().split(/\s+/)[0] ?? "";
+  return { name, docsHtml: ($("dd").first().html() ?? "").trim() };
+}
@@ -0,0 +1,56 @@
+import { getKindLabel } from "./containerKind";
+import { getModuleDeclarations } from "./pathGenerator";
+
+/**
+ * A declaration in a module's member tree, for the sidebar of module and
+ * declaration pages. Its FQN is left out of the tree file: it is the FQN of
+ * its parent followed by its name.
+ */
+export interface TreeNode {
+  name: string;
+  categoryName: string | null; // Its kind (see getKindLabel); null for a path segment without a page of its own
+  isPrivate?: true;
+  children?: TreeNode[];
+}
+
+/**
+ * Nests the generated declarations of a module by FQN, e.g. "std.mem.Allocator"
+ * under "mem", with the children of every node sorted by name.
+ * @param moduleName Name of the module, e.g. "std"
+ * @param version Documented version
+ * @returns The top-level members of the module
+ */
+export async function buildModuleTree(
+  moduleName: string,
+  version: string
+): Promise<TreeNode[]> {
+  const root: TreeNode = { name: moduleName, categoryName: null, children: [] };
+  // Nodes by FQN, so every declaration finds its parent in constant time
+  const nodes = new Map<string, TreeNode>([[moduleName, root]]);
+
+  const getNode = (fqn: string): TreeNode => {
+    let node = nodes.get(fqn);
+    if (!node) {
+      const dot = fqn.lastIndexOf(".");
+      node = { name: fqn.slice(dot + 1), categoryName: null };
+      const parent = getNode(fqn.slice(0, dot));
+      (parent.children ??= []).push(node);
+      nodes.set(fqn, node);
+    }
+    return node;
+  };
+
+  for (const declData of await getModuleDeclarations(moduleName, version)) {
+    if (!declData.fqn.startsWith(`${moduleName}.`)) continue;
+    const node = getNode(declData.fqn);
+    node.categoryName = getKindLabel(declData);
+    if (declData.isPrivate) node.isPrivate = true;
+  }
+
+  const sortChildren = (node: TreeNode) => {
+    node.children?.sort((a, b) => a.name.localeCompare(b.name));
+    node.children?.forEach(sortChildren);
+  };
+  sortChildren(root);
+  return root.children!;
+}
@@ -0,0 +1,68 @@
+import { getAllModules, getRouteVersion, getSourceFiles, getVersions } from "./docParser";
+import {
+  getDeclarationFqns,
+  getErrorNames,
+  getModuleDoctestFqns,
+} from "./pathGenerator";
+import {
+  getBuildReportPath,
+  getCoveragePath,
+  getDeclPath,
+  getDoctestsPath,
+  getErrorPath,
+  getModuleTreePath,
+  getSearchIndexPath,
+  getSourcePath,
+  getVersionPrefix,
+  getVersionRootPath,
+  withBase,
+} from "./pathUtils";
+import { hostsSources } from "./siteConfig";
+
+/**
+ * Lists what the service worker caches on install: the module index and
+ * search index of every version. The assets they load are found in the pages.
+ * @returns The URLs, including the base URL
+ */
+export function getPrecacheUrls(): string[] {
+  return getVersions().flatMap((version) => {
+    const routeVersion = getRouteVersion(version);
+    return [getVersionRootPath(routeVersion), getSearchIndexPath(routeVersion)].map(withBase);
+  });
+}
+
+/**
+ * Lists every page of a version, for the "download for offline" action:
+ * module and declaration pages, their member trees, doctest and error pages,
+ * source files (when hosted) and the version's reports.
+ * @param version Documented version
+ * @returns The URLs, including the base URL
+ */
+export async function getOfflineUrls(version: string): Promise<string[]> {
+  const routeVersion = getRouteVersion(version);
+  const paths = [
+    getVersionRootPath(routeVersion),
+    getSearchIndexPath(routeVersion),
+    getCoveragePath(routeVersion),
+    getBuildReportPath(routeVersion),
+  ];
+  for (const module of await getAllModules(version)) {
+    paths.push(getModuleTreePath(module.name, routeVersion));
+    if ((await getModuleDoctestFqns(module.name, version)).length > 0) {
+      paths.push(getDoctestsPath(module.name, routeVersion));
+    }
+  }
+  for (const fqn of await getDeclarationFqns(version)) {
+    paths.push(getDeclPath(fqn, routeVersion));
+  }
+  for (const error of await getErrorNames(version)) {
+    paths.push(getErrorPath(error, routeVersion));
+  }
+  if (hostsSources()) {
+    paths.push(`${getVersionPrefix(routeVersion)}/src`);
+    for (const file of (await getSourceFiles(version)).keys()) {
+      paths.push(getSourcePath(file, null, routeVersion));
+    }
+  }
+  return paths.map(withBase);
+}
@@ -1,13 +1,150 @@
+import { createHash } from "crypto";
 import fs from "fs/promises";
 import path from "path";
-import { fileURLToPath } from "url";
+import { getConfiguredVersions } from "./assetSource";
 import * as DeclCategories from "./constants";
+import { generateShardsInWorkers, getWorkerCount } from "./declarationWorkers";
+import { getDeclPath, getVersionRootPath, withBase } from "./pathUtils";
+import { getSiteConfig } from "./siteConfig";
+import {
+  isContainerDecl,
+  isFunctionDecl,
+  type BuildIssue,
+  type ContainerCoverage,
+  type DeclData,
+  type DeclReference,
+  type ReferenceKind,
+} from "./types";
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-// this is a hack for the build mode (the problem is because the relative path is on dist)
-const PATHS_CACHE_FILE = path.resolve(__dirname, "../../assets/declaration-paths-cache.json").replace('/dist/pages', '');
+// Bump whenever the shape of the generated declaration data changes, so
+// caches written by an older generator are rebuilt
+const CACHE_SCHEMA_VERSION = 14;
 
-// @TODO Check zig version from wasm module to invalidate cache if needed
+// Build caches live in the project's .cache directory unless ZIG_DOCS_CACHE_DIR
+// says otherwise. Resolved from the working directory, which is the project
+// root for astro commands, rather than from this file, which moves when bundled.
+const CACHE_DIR = path.resolve(
+  process.env.ZIG_DOCS_CACHE_DIR || path.join(process.cwd(), ".cache", "zig-docs")
+);
+
+// How many module shards stay loaded in memory at once. Pages are rendered in
+// the order of getStaticPaths, i.e. module by module, so a few are enough.
+const MAX_LOADED_SHARDS = 4;
+
+// Categories the pages know how to render, see constants.ts
+const KNOWN_CATEGORIES = new Set<number>(Object.values(DeclCategories));
+
+/**
+ * Returns the cache directory of a version, one per version so switching
+ * between them never serves another version's declarations. It holds an
+ * index.json manifest and one shard file per module.
+ */
+function getCacheDir(version: string): string {
+  return path.join(CACHE_DIR, `declaration-paths.${version.replace(/[^\w.-]/g, "_")}`);
+}
+
+function getShardFile(version: string, moduleName: string): string {
+  return path.join(getCacheDir(version), `${moduleName.replace(/[^\w.-]/g, "_")}.json`);
+}
+
+function getManifestFile(version: string): string {
+  return path.join(getCacheDir(version), "index.json");
+}
+
+/**
+ * Whether the cache should be ignored and rebuilt, requested with
+ * `ZIG_DOCS_REBUILD_CACHE=1` or the `--rebuild-cache` flag
+ * (e.g. `npm run build -- --rebuild-cache`).
+ */
+export function shouldRebuildCache(
+  env = process.env,
+  argv = process.argv
+): boolean {
+  const flag = env.ZIG_DOCS_REBUILD_CACHE;
+  return (Boolean(flag) && flag !== "0" && flag !== "false") || argv.includes("--rebuild-cache");
+}
+
+/**
+ * Computes the key a module's cache shard is valid for: a hash of the cache
+ * schema version, whether private members are included, where its links
+ * point (the base URL and the version's route prefix, both baked into the
+ * sanitized HTML) and everything the module's declarations depend on (see
+ * getModuleHash), so only modules whose sources changed are regenerated.
+ */
+async function getShardKey(moduleName: string, version: string): Promise<string> {
+  const { getModuleHash, getRouteVersion } = await import("./docParser");
+  return createHash("sha256")
+    .update(`schema:${CACHE_SCHEMA_VERSION}\n`)
+    .update(`private:${getSiteConfig().includePrivate}\n`)
+    .update(`links:${withBase(getVersionRootPath(getRouteVersion(version)))}\n`)
+    .update(await getModuleHash(moduleName, version))
+    .digest("hex");
+}
+
+// Layout of a module's shard file
+interface ShardFile {
+  key: string;
+  declarations: unknown[]; // DeclData serialized with makeSerializable
+}
+
+/**
+ * What the rest of the build needs to know about a module's shard without
+ * loading it.
+ */
+export interface ShardSummary {
+  fqns: string[]; // Declarations in traversal order
+  aliases: [alias: string, target: string][]; // Every alias and each declaration it resolves through
+  references: [from: string, to: string, kind: ReferenceKind][]; // See getDeclReferences
+  doctests: string[]; // Declarations with a doctest, aliases excluded
+  errors: [fn: string, error: string][]; // Errors every function can return, aliases excluded
+  links: [from: string, to: string][]; // Declarations linked from docs and signatures, each target once
+  issues: BuildIssue[]; // Problems found while generating, see getBuildIssues
+  coverage: ContainerCoverage[]; // Doc comment coverage of the module root and every container, see coverage.ts
+}
+
+// Layout of a version's manifest: the key and summary of every module whose
+// shard is up to date
+interface Manifest {
+  modules: Record<string, { key: string } & ShardSummary>;
+}
+
+/**
+ * A module to (re)generate the shard of, run in-process or in a worker.
+ */
+export interface ShardJob {
+  module: string;
+  key: string;
+}
+
+/**
+ * The outcome of generating a batch of shards, in-process or in workers.
+ */
+export interface GeneratedShards {
+  generated: Map<string, ShardSummary>; // Summaries by module
+  failed: Map<string, string>; // Errors by module, see getBuildIssues
+}
+
+type DeclarationPath = {
+  params: { version?: string; module: string; path: string | undefined };
+  props: { fqn: string };
+};
+
+// Declaration FQNs per module, generated or loaded during this build, per version
+const manifests = new Map<string, Promise<Map<string, ShardSummary>>>();
+// FQNs with a page, per version (see getDeclarationFqns)
+const declarationFqns = new Map<string, Promise<Set<string>>>();
+// Aliases pointing to each declaration, per version (see getAliasesOf)
+const aliasIndexes = new Map<string, Promise<Map<string, string[]>>>();
+// Declarations mentioning each declaration, per version (see getReferencesTo)
+const referenceIndexes = new Map<string, Promise<Map<string, DeclReference[]>>>();
+// Pages under each parent FQN ("" for modules), sorted by name, per version
+const siblingIndexes = new Map<string, Promise<Map<string, string[]>>>();
+// Functions returning each error name, sorted, per version
+const errorIndexes = new Map<string, Promise<Map<string, string[]>>>();
+// Why modules failed to generate during this build, per version
+const failedModules = new Map<string, Map<string, string>>();
+// Recently loaded shards, least recently used first, keyed "<version>\0<module>"
+const loadedShards = new Map<string, Promise<Map<string, DeclData>>>();
 
 /**
  * Process data to make it JSON serializable by converting BigInt to strings
@@ -73,93 +210,147 @@ function restoreBigInts(data: any): any {
   return data;
 }
 
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false);
+}
+
 /**
- * Checks if the cache file exists and is valid
+ * Reads a version's manifest, or an empty one if there is none yet or it
+ * can't be read.
  */
-async function getCachedPaths() {
+async function readManifest(version: string): Promise<Manifest> {
+  const manifestFile = getManifestFile(version);
   try {
-    const cacheExists = await fs
-      .access(PATHS_CACHE_FILE)
-      .then(() => true)
-      .catch(() => false);
-
-    if (cacheExists) {
-      console.log("Using cached declaration paths");
-      const cachedData = await fs.readFile(PATHS_CACHE_FILE, "utf-8");
-      // Restore BigInt values when loading from cache
-      return restoreBigInts(JSON.parse(cachedData));
+    const manifest: Manifest = JSON.parse(await fs.readFile(manifestFile, "utf-8"));
+    if (manifest && typeof manifest.modules === "object") return manifest;
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") {
+      console.warn("Error reading cache manifest:", err);
     }
-  } catch (err) {
-    console.warn("Error reading cache file:", err);
   }
-
-  console.log("No valid cache found, generating new paths...", PATHS_CACHE_FILE);
-  return null;
+  console.log("No valid cache manifest found, generating all modules...", manifestFile);
+  return { modules: {} };
 }
 
 /**
- * Generates all static paths for module declarations with caching
- * @param {boolean} forceRegenerate - If true, regenerates cache even if it exists
- * @returns {Promise<Array>} Array of path objects for Astro's getStaticPaths
+ * Walks the declarations of a module recursively and writes them to the
+ * module's shard file. Runs in the build process or in a declaration worker,
+ * which has its own WASM instance.
+ * @param version Documented version
+ * @param job The module to generate and the key to store with its shard
+ * @returns The summary to record in the manifest
  */
-export async function generateDeclarationPaths(forceRegenerate = false) {
-  // First check if we have a cached result (unless force regenerate is true)
-  if (!forceRegenerate) {
-    const cachedPaths = await getCachedPaths();
-    if (cachedPaths) return cachedPaths;
-  }
-
-  console.log("Generating static paths for all declarations...");
-
+export async function generateModuleShard(
+  version: string,
+  job: ShardJob
+): Promise<ShardSummary> {
   // Import needed functions dynamically to ensure they're not loaded unnecessarily
   const {
-    getAllModules,
     getModuleData,
     getDeclData: getDeclDataInternal,
+    getDeclReferences,
+    getDocLinks,
+    getErrorSetErrors,
+    getMemberDocs,
     processDeclarations: processDeclarationsInternal,
   } = await import("./docParser");
 
-  const modules = await getAllModules();
-  console.log(`Found ${modules.length} modules to process.`);
-
-  const paths: {
-    params: { module: any; path: any };
-    props: { declData: any };
-  }[] = [];
-  const processedFqns = new Set();
+  const declarations: DeclData[] = [];
+  const references: ShardSummary["references"] = [];
+  const errors: ShardSummary["errors"] = [];
+  const issues: BuildIssue[] = [];
+  // First declaration linking to each target, checked against every page once all modules are known
+  const links = new Map<string, string>();
+  const addLink = (from: string, to: string) => {
+    if (!links.has(to)) links.set(to, from);
+  };
+  // Coverage of every container (and the module root), by FQN
+  const coverage = new Map<string, ContainerCoverage>();
+  const getCoverage = (fqn: string): ContainerCoverage => {
+    let container = coverage.get(fqn);
+    if (!container) {
+      const empty = () => ({ documented: 0, total: 0 });
+      container = { fqn, declarations: empty(), fields: empty(), params: empty(), undocumented: [] };
+      coverage.set(fqn, container);
+    }
+    return container;
+  };
+  const countMembers = (
+    container: ContainerCoverage,
+    ownerFqn: string,
+    members: Awaited<ReturnType<typeof getMemberDocs>>,
+    kind: "field" | "param"
+  ) => {
+    const count = kind === "field" ? container.fields : container.params;
+    for (const { name, documented } of members) {
+      count.total++;
+      if (documented) count.documented++;
+      else container.undocumented.push({ kind, fqn: ownerFqn, name });
+    }
+  };
+  const processedFqns = new Set<string>();
 
   async function processDeclarationRecursively(declFqn: string) {
+    // Aliases lead into other modules, whose own shards hold those declarations
+    if (!declFqn.startsWith(`${job.module}.`)) return;
     if (processedFqns.has(declFqn)) return;
     processedFqns.add(declFqn);
 
     try {
-      const declData = await getDeclDataInternal(declFqn);
-      const fqnParts = declFqn.split(".");
-      if (fqnParts.length < 2) return; // Skip module roots
+      const declData = await getDeclDataInternal(declFqn, version);
+      if (declFqn.split(".").length < 2) return; // Skip module roots
+      declarations.push(declData);
 
-      const moduleName = fqnParts[0];
-      // path can be undefined if it's a direct child of the module
-      const pathString =
-        fqnParts.length > 1 ? fqnParts.slice(1).join("/") : undefined;
+      if (declData.category === DeclCategories.CAT_alias) {
+        issues.push({ kind: "unresolved-alias", fqn: declData.fqn, detail: declData.targetFqn });
+      } else if (!KNOWN_CATEGORIES.has(declData.category)) {
+        issues.push({
+          kind: "unknown-category",
+          fqn: declData.fqn,
+          detail: `${declData.category} (${declData.categoryName})`,
+        });
+      }
 
-      paths.push({
-        params: {
-          module: moduleName,
-          path: pathString,
-        },
-        props: { declData },
-      });
+      // Aliases mention the same declarations as their target
+      if (declData.aliasChain.length === 0) {
+        for (const reference of await getDeclReferences(declData, version)) {
+          references.push([declData.fqn, reference.fqn, reference.kind]);
+          addLink(declData.fqn, reference.fqn);
+        }
+        for (const fqn of await getDocLinks(declData, version)) addLink(declData.fqn, fqn);
+        if (!declData.isPrivate && !declData.docs.trim()) {
+          issues.push({ kind: "missing-docs", fqn: declData.fqn });
+        }
+
+        // Declarations count in their parent container, as do the params of functions
+        if (!declData.isPrivate) {
+          const parent = getCoverage(declData.fqn.slice(0, declData.fqn.lastIndexOf(".")));
+          parent.declarations.total++;
+          if (declData.docs.trim()) parent.declarations.documented++;
+          else parent.undocumented.push({ kind: "declaration", fqn: declData.fqn });
+
+          if (isFunctionDecl(declData)) {
+            const params = await getMemberDocs(declData.index, "param", declData.params, version);
+            countMembers(parent, declData.fqn, params, "param");
+          } else if (isContainerDecl(declData) && declData.fields.length > 0) {
+            const fields = await getMemberDocs(declData.index, "field", declData.fields, version);
+            countMembers(getCoverage(declData.fqn), declData.fqn, fields, "field");
+          }
+        }
+        if (isFunctionDecl(declData) && declData.errorSetBaseDecl !== undefined) {
+          const entries = await getErrorSetErrors(declData.errorSetBaseDecl, declData.errorSetNodes, version);
+          for (const { name } of entries) errors.push([declData.fqn, name]);
+        }
+      }
 
       // Process nested members recursively if it's a container/namespace/type
-      if (
-        (declData.category === DeclCategories.CAT_container ||
-          declData.category === DeclCategories.CAT_namespace ||
-          declData.category === DeclCategories.CAT_type) && // Include CAT_type if they can have members
-        declData.members &&
-        declData.members.length > 0
-      ) {
+      if (isContainerDecl(declData) && declData.members.length > 0) {
         // processDeclarations returns basic info including fqn
-        const nestedDecls = await processDeclarationsInternal(declData.members);
+        const nestedDecls = await processDeclarationsInternal(declData.members, version);
         await Promise.all(
           nestedDecls.map((nestedDecl) =>
             processDeclarationRecursively(nestedDecl.fqn)
@@ -168,66 +359,543 @@ export async function generateDeclarationPaths(forceRegenerate = false) {
       }
     } catch (error) {
       console.error(
-        `Error processing declaration ${declFqn} in generateDeclarationPaths:`,
+        `Error processing declaration ${declFqn} in generateModuleShard:`,
         error
       );
+      issues.push({ kind: "failed-declaration", fqn: declFqn, detail: String(error) });
     }
   }
 
+  const moduleData = await getModuleData(job.module, version);
+  // Filter out declarations without FQN
+  const validDeclarations = moduleData.declarations.filter((decl) => {
+    if (!decl.fqn) {
+      console.warn(
+        `Skipping declaration with missing FQN in module ${job.module} (Index: ${decl.originalIndex})`
+      );
+      issues.push({
+        kind: "failed-declaration",
+        fqn: job.module,
+        detail: `Declaration ${decl.originalIndex} has no FQN`,
+      });
+      return false;
+    }
+    return true;
+  });
   await Promise.all(
-    modules.map(async (module) => {
-      try {
-        const moduleData = await getModuleData(module.name);
-        if (moduleData.declarations && moduleData.declarations.length > 0) {
-          // Filter out declarations without FQN
-          const validDeclarations = moduleData.declarations.filter((decl) => {
-            if (!decl.fqn) {
-              console.warn(
-                `Skipping declaration with missing FQN in module ${module.name} (Index: ${decl.originalIndex})`
-              );
-              return false;
-            }
-            return true;
-          });
-          await Promise.all(
-            validDeclarations.map((decl) =>
-              processDeclarationRecursively(decl.fqn)
-            )
-          );
-        }
-      } catch (error) {
-        console.error(
-          `Error processing module ${module.name} in generateDeclarationPaths:`,
-          error
-        );
-      }
-    })
+    validDeclarations.map((decl) => processDeclarationRecursively(decl.fqn))
   );
+  // Fields of the module's root file, e.g. a file that is a struct itself
+  const rootFields = await getMemberDocs(moduleData.rootDeclIndex, "field", moduleData.fields, version);
+  countMembers(getCoverage(job.module), job.module, rootFields, "field");
+
+  // Make data JSON-serializable by converting BigInt values to strings, and
+  // write it atomically so an interrupted build never leaves a truncated shard
+  const shard: ShardFile = { key: job.key, declarations: makeSerializable(declarations) };
+  const shardFile = getShardFile(version, job.module);
+  await fs.mkdir(path.dirname(shardFile), { recursive: true });
+  await fs.writeFile(`${shardFile}.tmp`, JSON.stringify(shard));
+  await fs.rename(`${shardFile}.tmp`, shardFile);
 
+  console.log(`Generated ${declarations.length} declarations of module "${job.module}".`);
+  return {
+    fqns: declarations.map((declData) => declData.fqn),
+    aliases: declarations.flatMap((declData) =>
+      declData.aliasChain.map((target): [string, string] => [declData.fqn, target])
+    ),
+    references,
+    doctests: declarations
+      .filter(
+        (declData) =>
+          declData.aliasChain.length === 0 &&
+          (isFunctionDecl(declData) || isContainerDecl(declData)) &&
+          declData.doctest !== null
+      )
+      .map((declData) => declData.fqn),
+    errors,
+    links: Array.from(links, ([to, from]): [string, string] => [from, to]),
+    issues,
+    coverage: Array.from(coverage.values()).sort((a, b) => a.fqn.localeCompare(b.fqn)),
+  };
+}
+
+/**
+ * Generates shards one module at a time in this process, for builds without
+ * declaration workers.
+ */
+async function generateShardsInProcess(
+  version: string,
+  jobs: ShardJob[]
+): Promise<GeneratedShards> {
+  const results: GeneratedShards = { generated: new Map(), failed: new Map() };
+  for (const job of jobs) {
+    try {
+      results.generated.set(job.module, await generateModuleShard(version, job));
+    } catch (error) {
+      results.failed.set(job.module, String(error));
+    }
+  }
+  return results;
+}
+
+/**
+ * Brings a version's cache shards up to date, regenerating only the modules
+ * whose key changed, and returns the summary of every module in
+ * module order. Modules that fail to generate are left out and retried on
+ * the next build.
+ */
+async function loadOrGenerateManifest(
+  version: string,
+  forceRegenerate: boolean
+): Promise<Map<string, ShardSummary>> {
+  const { getAllModules, getResolvedAssets } = await import("./docParser");
+  const modules = await getAllModules(version);
+
+  // First check which shards are cached (unless a rebuild is requested)
+  let previous: Manifest = { modules: {} };
+  if (forceRegenerate || shouldRebuildCache()) {
+    console.log(`Rebuilding declaration path cache for version "${version}".`);
+  } else {
+    previous = await readManifest(version);
+  }
+
+  const manifest: Manifest = { modules: {} };
+  const jobs: ShardJob[] = [];
+  for (const module of modules) {
+    const key = await getShardKey(module.name, version);
+    const cached = previous.modules[module.name];
+    if (cached?.key === key && (await fileExists(getShardFile(version, module.name)))) {
+      manifest.modules[module.name] = cached;
+    } else {
+      jobs.push({ module: module.name, key });
+    }
+  }
   console.log(
-    `Successfully prepared ${paths.length} paths for declaration pages.`
+    `Found ${modules.length} modules for version "${version}", ${jobs.length} to generate.`
   );
 
-  // Make data JSON-serializable by converting BigInt values to strings
-  const serializablePaths = makeSerializable(paths);
+  if (jobs.length > 0) {
+    const workerCount = getWorkerCount(jobs.length);
+    const { generated, failed } =
+      workerCount > 0
+        ? await generateShardsInWorkers(
+            version,
+            await getResolvedAssets(version),
+            jobs,
+            workerCount
+          )
+        : await generateShardsInProcess(version, jobs);
+    for (const job of jobs) {
+      const summary = generated.get(job.module);
+      if (summary) manifest.modules[job.module] = { key: job.key, ...summary };
+    }
+    for (const [module, error] of failed) {
+      console.error(`Error processing module ${module} in generateDeclarationPaths:`, error);
+    }
+    failedModules.set(version, failed);
+  }
 
-  // Save to cache for future use
+  // Save the manifest for future builds
   try {
-    await fs.writeFile(PATHS_CACHE_FILE, JSON.stringify(serializablePaths));
-    console.log("Declaration paths cached successfully");
+    await fs.mkdir(getCacheDir(version), { recursive: true });
+    await fs.writeFile(getManifestFile(version), JSON.stringify(manifest));
+    if (jobs.length > 0) console.log("Declaration paths cached successfully");
   } catch (err) {
     console.error("Failed to cache declaration paths:", err);
   }
 
+  // Drop the shards of modules that no longer exist
+  const shardFiles = new Set(
+    Object.keys(manifest.modules).map((name) => path.basename(getShardFile(version, name)))
+  );
+  for (const file of await fs.readdir(getCacheDir(version)).catch(() => [])) {
+    if (file !== "index.json" && !shardFiles.has(file)) {
+      await fs.rm(path.join(getCacheDir(version), file), { force: true });
+    }
+  }
+
+  return new Map(
+    modules
+      .filter((module) => manifest.modules[module.name])
+      .map((module) => {
+        const { key, ...summary } = manifest.modules[module.name];
+        return [module.name, summary];
+      })
+  );
+}
+
+// Drops everything generated or loaded for a version during this build
+function forgetVersion(version: string): void {
+  manifests.delete(version);
+  declarationFqns.delete(version);
+  aliasIndexes.delete(version);
+  referenceIndexes.delete(version);
+  errorIndexes.delete(version);
+  siblingIndexes.delete(version);
+  failedModules.delete(version);
+  for (const key of loadedShards.keys()) {
+    if (key.startsWith(`${version}\0`)) loadedShards.delete(key);
+  }
+}
+
+function getManifest(
+  version: string,
+  forceRegenerate = false
+): Promise<Map<string, ShardSummary>> {
+  if (forceRegenerate) forgetVersion(version);
+  let manifest = manifests.get(version);
+  if (!manifest) {
+    manifest = loadOrGenerateManifest(version, forceRegenerate);
+    manifests.set(version, manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Generates all static paths for module declarations with caching. The paths
+ * only carry the FQN; pages load the declaration itself with
+ * getGeneratedDeclaration, so the build never holds every declaration at once.
+ * @param {string} version - Documented version, defaults to the default version
+ * @param {boolean} forceRegenerate - If true, regenerates every module even if it is up to date
+ * (the cache is also skipped once per build when shouldRebuildCache() is set)
+ * @returns {Promise<Array>} Array of path objects for Astro's getStaticPaths, module by module
+ */
+export async function generateDeclarationPaths(
+  version = getConfiguredVersions()[0],
+  forceRegenerate = false
+): Promise<DeclarationPath[]> {
+  const summaries = await getManifest(version, forceRegenerate);
+
+  // The version param isn't cached: which version is the default may change
+  const { getRouteVersion } = await import("./docParser");
+  const routeVersion = getRouteVersion(version);
+  const paths: DeclarationPath[] = [];
+  for (const { fqns } of summaries.values()) {
+    for (const fqn of fqns) {
+      paths.push({
+        params: { version: routeVersion, module: fqn.split(".")[0], path: fqn.split(".").slice(1).join("/") },
+        props: { fqn },
+      });
+    }
+  }
+  console.log(`Successfully prepared ${paths.length} paths for declaration pages.`);
   return paths;
 }
 
+// Loads a module's shard, keeping only the most recently used ones in memory
+function loadShard(version: string, moduleName: string): Promise<Map<string, DeclData>> {
+  const cacheKey = `${version}\0${moduleName}`;
+  let shard = loadedShards.get(cacheKey);
+  if (shard) {
+    loadedShards.delete(cacheKey); // Re-inserted below as the most recent
+  } else {
+    shard = (async () => {
+      const data: ShardFile = JSON.parse(
+        await fs.readFile(getShardFile(version, moduleName), "utf-8")
+      );
+      // Restore BigInt values when loading from cache
+      const declarations: DeclData[] = restoreBigInts(data.declarations);
+      return new Map(declarations.map((declData) => [declData.fqn, declData]));
+    })();
+  }
+  loadedShards.set(cacheKey, shard);
+  for (const key of loadedShards.keys()) {
+    if (loadedShards.size <= MAX_LOADED_SHARDS) break;
+    loadedShards.delete(key);
+  }
+  return shard;
+}
+
+/**
+ * Returns the generated declarations of a module, loaded from its cache
+ * shard. Callers walking every declaration should go module by module, so
+ * only a few shards are in memory at a time.
+ * @param moduleName Name of the module, e.g. "std"
+ * @param version Documented version
+ * @returns The module's declarations, or an empty list if it has none or failed to generate
+ */
+export async function getModuleDeclarations(
+  moduleName: string,
+  version: string
+): Promise<DeclData[]> {
+  if (!(await getManifest(version)).has(moduleName)) return [];
+  return Array.from((await loadShard(version, moduleName)).values());
+}
+
+/**
+ * Returns the FQNs of a module's declarations without loading its shard.
+ * @param moduleName Name of the module, e.g. "std"
+ * @param version Documented version
+ * @returns Their FQNs in traversal order, empty if the module failed to generate
+ */
+export async function getModuleDeclarationFqns(
+  moduleName: string,
+  version: string
+): Promise<string[]> {
+  return (await getManifest(version)).get(moduleName)?.fqns ?? [];
+}
+
+/**
+ * Returns the generated data of a declaration with a page.
+ * @param fqn The FQN from the page's props
+ * @param version Documented version
+ */
+export async function getGeneratedDeclaration(fqn: string, version: string): Promise<DeclData> {
+  const moduleName = fqn.split(".")[0];
+  if ((await getManifest(version)).has(moduleName)) {
+    const declData = (await loadShard(version, moduleName)).get(fqn);
+    if (declData) return declData;
+  }
+  throw new Error(`Declaration not generated: ${fqn} (${version})`);
+}
+
+/**
+ * Returns the FQNs that have a page in a version: module roots plus every
+ * generated declaration.
+ */
+export function getDeclarationFqns(version: string): Promise<Set<string>> {
+  let fqns = declarationFqns.get(version);
+  if (!fqns) {
+    fqns = (async () => {
+      const { getAllModules } = await import("./docParser");
+      const set = new Set((await getAllModules(version)).map((module) => module.name));
+      for (const { fqns: moduleFqns } of (await getManifest(version)).values()) {
+        for (const fqn of moduleFqns) set.add(fqn);
+      }
+      return set;
+    })();
+    declarationFqns.set(version, fqns);
+  }
+  return fqns;
+}
+
+/**
+ * Returns the aliases resolving to a declaration, directly or through other
+ * aliases, e.g. "std.ArrayList" for "array_list.ArrayList".
+ * @param fqn The FQN of the declaration
+ * @param version Documented version
+ * @returns The FQNs of the aliases, sorted
+ */
+export async function getAliasesOf(fqn: string, version: string): Promise<string[]> {
+  let index = aliasIndexes.get(version);
+  if (!index) {
+    index = (async () => {
+      const aliases = new Map<string, string[]>();
+      for (const summary of (await getManifest(version)).values()) {
+        for (const [alias, target] of summary.aliases) {
+          if (!aliases.has(target)) aliases.set(target, []);
+          aliases.get(target)!.push(alias);
+        }
+      }
+      for (const list of aliases.values()) list.sort();
+      return aliases;
+    })();
+    aliasIndexes.set(version, index);
+  }
+  return (await index).get(fqn) ?? [];
+}
+
+/**
+ * Returns the declarations of a module that have a doctest, for its doctest
+ * index, without loading the module's shard.
+ * @param moduleName Name of the module, e.g. "std"
+ * @param version Documented version
+ * @returns Their FQNs, sorted
+ */
+export async function getModuleDoctestFqns(
+  moduleName: string,
+  version: string
+): Promise<string[]> {
+  const summary = (await getManifest(version)).get(moduleName);
+  return summary ? [...summary.doctests].sort() : [];
+}
+
+/**
+ * Returns the doc comment coverage of a module's root and containers, without
+ * loading the module's shard.
+ * @param moduleName Name of the module, e.g. "std"
+ * @param version Documented version
+ * @returns One entry per container, sorted by FQN; empty if the module failed to generate
+ */
+export async function getModuleCoverage(
+  moduleName: string,
+  version: string
+): Promise<ContainerCoverage[]> {
+  return (await getManifest(version)).get(moduleName)?.coverage ?? [];
+}
+
+/**
+ * Returns the declarations mentioning any of the given declarations in their
+ * parameters, return type or fields, for the "Referenced by" section.
+ * @param fqns The FQNs a declaration is known by, e.g. itself and its aliases
+ * @param version Documented version
+ * @returns The mentioning declarations with how they mention it, sorted by FQN
+ */
+export async function getReferencesTo(
+  fqns: string[],
+  version: string
+): Promise<DeclReference[]> {
+  let index = referenceIndexes.get(version);
+  if (!index) {
+    index = (async () => {
+      const referencedBy = new Map<string, DeclReference[]>();
+      for (const summary of (await getManifest(version)).values()) {
+        for (const [from, to, kind] of summary.references) {
+          if (!referencedBy.has(to)) referencedBy.set(to, []);
+          referencedBy.get(to)!.push({ fqn: from, kind });
+        }
+      }
+      return referencedBy;
+    })();
+    referenceIndexes.set(version, index);
+  }
+
+  const referencedBy = await index;
+  const found = new Map<string, DeclReference>();
+  for (const fqn of fqns) {
+    for (const reference of referencedBy.get(fqn) ?? []) {
+      found.set(`${reference.fqn}\0${reference.kind}`, reference);
+    }
+  }
+  return Array.from(found.values()).sort((a, b) => a.fqn.localeCompare(b.fqn));
+}
+
+// Builds the index of the functions returning each error, from every module's summary
+function getErrorIndex(version: string): Promise<Map<string, string[]>> {
+  let index = errorIndexes.get(version);
+  if (!index) {
+    index = (async () => {
+      const returnedBy = new Map<string, Set<string>>();
+      for (const summary of (await getManifest(version)).values()) {
+        for (const [fn, error] of summary.errors) {
+          if (!returnedBy.has(error)) returnedBy.set(error, new Set());
+          returnedBy.get(error)!.add(fn);
+        }
+      }
+      return new Map(Array.from(returnedBy, ([error, fns]) => [error, [...fns].sort()]));
+    })();
+    errorIndexes.set(version, index);
+  }
+  return index;
+}
+
+/**
+ * Returns the names of the errors at least one function can return, each of
+ * which gets a page listing those functions.
+ * @param version Documented version
+ * @returns The error names, sorted
+ */
+export async function getErrorNames(version: string): Promise<string[]> {
+  return Array.from((await getErrorIndex(version)).keys()).sort();
+}
+
+/**
+ * Returns the functions whose error set contains an error. Errors are matched
+ * by name, as Zig does when coercing between error sets.
+ * @param error The error name, e.g. "OutOfMemory"
+ * @param version Documented version
+ * @returns The FQNs of the functions, sorted
+ */
+export async function getFunctionsReturningError(
+  error: string,
+  version: string
+): Promise<string[]> {
+  return (await getErrorIndex(version)).get(error) ?? [];
+}
+
+/**
+ * Collects the problems found while generating a version: modules that
+ * failed to generate, the issues recorded in every shard, and links to
+ * declarations without a page, which can only be told once every module is
+ * known. Shards from the cache keep the issues found when they were generated.
+ * @param version Documented version
+ * @returns The issues, module by module
+ */
+export async function getBuildIssues(version: string): Promise<BuildIssue[]> {
+  const { getAllModules } = await import("./docParser");
+  const summaries = await getManifest(version);
+  const fqns = await getDeclarationFqns(version);
+  const issues: BuildIssue[] = [];
+  for (const module of await getAllModules(version)) {
+    const summary = summaries.get(module.name);
+    if (!summary) {
+      const detail = failedModules.get(version)?.get(module.name);
+      issues.push({ kind: "failed-module", fqn: module.name, detail });
+      continue;
+    }
+    issues.push(...summary.issues);
+    for (const [from, to] of summary.links) {
+      if (!fqns.has(to)) issues.push({ kind: "dangling-link", fqn: from, detail: to });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Finds the declarations before and after one among its siblings, the pages
+ * under the same parent (or the other modules, for a module) sorted by name.
+ * Used by the `[` and `]` shortcuts.
+ * @param fqn The FQN of the declaration or module
+ * @param version Documented version
+ * @returns The FQNs of its neighbours, null at either end
+ */
+export async function getSiblingFqns(
+  fqn: string,
+  version: string
+): Promise<{ previous: string | null; next: string | null }> {
+  let index = siblingIndexes.get(version);
+  if (!index) {
+    index = (async () => {
+      const children = new Map<string, string[]>();
+      for (const pageFqn of await getDeclarationFqns(version)) {
+        const parent = pageFqn.slice(0, Math.max(pageFqn.lastIndexOf("."), 0));
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent)!.push(pageFqn);
+      }
+      const nameOf = (pageFqn: string) => pageFqn.slice(pageFqn.lastIndexOf(".") + 1);
+      for (const list of children.values()) {
+        list.sort((a, b) => nameOf(a).localeCompare(nameOf(b)));
+      }
+      return children;
+    })();
+    siblingIndexes.set(version, index);
+  }
+
+  const siblings = (await index).get(fqn.slice(0, Math.max(fqn.lastIndexOf("."), 0))) ?? [];
+  const position = siblings.indexOf(fqn);
+  if (position === -1) return { previous: null, next: null };
+  return { previous: siblings[position - 1] ?? null, next: siblings[position + 1] ?? null };
+}
+
+/**
+ * Finds the page to land on when switching a declaration to another version:
+ * the declaration itself if it exists there, otherwise its nearest existing
+ * parent, falling back to the version's module index.
+ * @param fqn The FQN shown on the current page
+ * @param version The version to switch to
+ * @returns The path of that page in the target version
+ */
+export async function findNearestDeclPath(fqn: string, version: string): Promise<string> {
+  const { getRouteVersion } = await import("./docParser");
+  const routeVersion = getRouteVersion(version);
+  const fqns = await getDeclarationFqns(version);
+  const parts = fqn.split(".");
+  while (parts.length > 0) {
+    const candidate = parts.join(".");
+    if (fqns.has(candidate)) return getDeclPath(candidate, routeVersion);
+    parts.pop();
+  }
+  return getVersionRootPath(routeVersion);
+}
+
 /**
  * Utility function to clear the cache if needed
+ * @param {string} version - Version whose cache to clear, defaults to the default version
  */
-export async function clearPathCache() {
+export async function clearPathCache(version = getConfiguredVersions()[0]) {
+  forgetVersion(version);
   try {
-    await fs.unlink(PATHS_CACHE_FILE);
+    await fs.rm(getCacheDir(version), { recursive: true });
     console.log("Path cache cleared successfully");
     return true;
   } catch (err) {
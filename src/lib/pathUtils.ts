@@ -1,32 +1,241 @@
+/**
+ * Generates the path prefix of a documented version.
+ * The default version is served without a prefix and has an undefined route version.
+ * Example: "0.14.0" -> "/0.14.0", undefined -> ""
+ * @param version The route version.
+ * @returns The prefix to put in front of module and source paths.
+ */
+export function getVersionPrefix(version?: string): string {
+  return version ? `/${version}` : "";
+}
+
+/**
+ * Generates the web path of a version's module index.
+ * Example: "0.14.0" -> "/0.14.0", undefined -> "/"
+ * @param version The route version.
+ * @returns The corresponding URL path.
+ */
+export function getVersionRootPath(version?: string): string {
+  return getVersionPrefix(version) || "/";
+}
+
+/**
+ * A field, parameter or error of a declaration, which has its own anchor on
+ * the declaration's page.
+ */
+export interface MemberAnchor {
+  kind: "field" | "param" | "error";
+  name: string;
+}
+
+/**
+ * Generates the element id of a member on its declaration's page.
+ * Example: { kind: "field", name: "ptr" } -> "field-ptr"
+ * @param member The field, parameter or error.
+ * @returns The id, also used as URL fragment.
+ */
+export function getMemberAnchor(member: MemberAnchor): string {
+  // Ids can't hold whitespace, which only quoted identifiers (@"a b") have
+  return `${member.kind}-${member.name.replace(/\s+/g, "_")}`;
+}
+
 /**
  * Generates the web path for a given fully qualified name (FQN).
  * Example: "std.time.Instant" -> "/modules/std/time/Instant"
+ * Example: "std.time.Instant", "0.14.0" -> "/0.14.0/modules/std/time/Instant"
+ * Example: "std.mem.Allocator", undefined, { kind: "field", name: "ptr" } -> "/modules/std/mem/Allocator#field-ptr"
  * @param fqn The fully qualified name.
+ * @param version The route version, undefined for the default version.
+ * @param member Optional field, parameter or error to link to on the declaration's page.
  * @returns The corresponding URL path.
  */
-export function getDeclPath(fqn: string | undefined | null): string {
+export function getDeclPath(
+  fqn: string | undefined | null,
+  version?: string,
+  member?: MemberAnchor
+): string {
   if (!fqn) {
     console.warn("getDeclPath called with empty FQN.");
     return "#"; // Return a safe fallback
   }
   // Ensure no leading/trailing dots and replace all dots with slashes
   const cleanedFqn = fqn.replace(/^\.+|\.+$/g, '').replace(/\./g, '/');
-  return `/modules/${cleanedFqn}`;
+  const anchor = member ? `#${encodeURIComponent(getMemberAnchor(member))}` : '';
+  return `${getVersionPrefix(version)}/modules/${cleanedFqn}${anchor}`;
 }
 
 /**
  * Generates the web path for the source file of a declaration.
- * Example: "std/time.zig" -> "/src/std/time.zig"
+ * Example: "std/time.zig", { start: 10, end: 20 } -> "/src/std/time.zig#L10-L20"
  * @param filePath The file path relative to the source root.
+ * @param lines Optional 1-based line range to jump to.
+ * @param version The route version, undefined for the default version.
  * @returns The corresponding URL path for the source view.
  */
-export function getSourcePath(filePath: string | undefined | null): string {
+export function getSourcePath(
+  filePath: string | undefined | null,
+  lines?: { start: number; end: number } | null,
+  version?: string
+): string {
    if (!filePath) {
        return "#"; // Fallback if no file path
    }
    // Ensure no leading slashes
    const cleanedPath = filePath.replace(/^\/+/, '');
-   return `/src/${cleanedPath}`;
+   return `${getVersionPrefix(version)}/src/${cleanedPath}${getLineAnchor(lines)}`;
+}
+
+/**
+ * Generates the anchor for a line range in the source view.
+ * Example: { start: 10, end: 20 } -> "#L10-L20", { start: 3, end: 3 } -> "#L3"
+ * @param lines The 1-based line range.
+ * @returns The anchor, or an empty string if no range is given.
+ */
+export function getLineAnchor(lines?: { start: number; end: number } | null): string {
+   if (!lines) {
+       return "";
+   }
+   return lines.start === lines.end
+       ? `#L${lines.start}`
+       : `#L${lines.start}-L${lines.end}`;
+}
+
+/**
+ * Fills in a forge URL template such as
+ * "https://github.com/ziglang/zig/blob/{ref}/lib/{file}#L{line}-L{endLine}".
+ * Without a line range, a fragment using {line} or {endLine} is dropped.
+ * Example: "std/mem.zig", { start: 10, end: 20 }, "0.14.0"
+ *   -> "https://github.com/ziglang/zig/blob/0.14.0/lib/std/mem.zig#L10-L20"
+ * @param template The URL template.
+ * @param filePath The file path relative to the source root.
+ * @param lines Optional 1-based line range.
+ * @param ref The git ref (branch, tag or commit) to link to.
+ * @returns The URL, or "#" if no file path is given.
+ */
+export function formatSourceUrl(
+    template: string,
+    filePath: string | undefined | null,
+    lines: { start: number; end: number } | null | undefined,
+    ref: string
+): string {
+    if (!filePath) {
+        return "#";
+    }
+    let url = template;
+    if (!lines) {
+        const hash = url.indexOf("#");
+        if (hash !== -1 && /\{(?:line|endLine)\}/.test(url.slice(hash))) {
+            url = url.slice(0, hash);
+        }
+    }
+    const encodePath = (value: string) => value.split("/").map(encodeURIComponent).join("/");
+    const values: Record<string, string> = {
+        ref: encodePath(ref),
+        file: encodePath(filePath.replace(/^\/+/, "")),
+        line: String(lines?.start ?? ""),
+        endLine: String(lines?.end ?? ""),
+    };
+    return url.replace(/\{(ref|file|line|endLine)\}/g, (_, key: string) => values[key]);
+}
+
+/**
+ * Generates the web path of a module's doctest index.
+ * Example: "std" -> "/doctests/std", "std", "0.14.0" -> "/0.14.0/doctests/std"
+ * @param moduleName The name of the module.
+ * @param version The route version, undefined for the default version.
+ * @returns The corresponding URL path.
+ */
+export function getDoctestsPath(moduleName: string, version?: string): string {
+    return `${getVersionPrefix(version)}/doctests/${moduleName}`;
+}
+
+/**
+ * Generates the web path of a module's member tree, loaded by the sidebar.
+ * Example: "std" -> "/trees/std.json", "std", "0.14.0" -> "/0.14.0/trees/std.json"
+ * @param moduleName The name of the module.
+ * @param version The route version, undefined for the default version.
+ * @returns The corresponding URL path.
+ */
+export function getModuleTreePath(moduleName: string, version?: string): string {
+    return `${getVersionPrefix(version)}/trees/${moduleName}.json`;
+}
+
+/**
+ * Generates the web path of an error's page, listing the functions returning it.
+ * Example: "OutOfMemory" -> "/errors/OutOfMemory", 'Bad Input' -> "/errors/Bad%20Input"
+ * @param errorName The name of the error, percent-encoded in the path.
+ * @param version The route version, undefined for the default version.
+ * @returns The corresponding URL path.
+ */
+export function getErrorPath(errorName: string, version?: string): string {
+    return `${getVersionPrefix(version)}/errors/${encodeURIComponent(errorName)}`;
+}
+
+/**
+ * Generates the web path of a version's build report.
+ * Example: undefined -> "/build-report", "0.14.0", ".json" -> "/0.14.0/build-report.json"
+ * @param version The route version, undefined for the default version.
+ * @param extension Optional extension, e.g. ".json" for the machine-readable report.
+ * @returns The corresponding URL path.
+ */
+export function getBuildReportPath(version?: string, extension = ""): string {
+    return `${getVersionPrefix(version)}/build-report${extension}`;
+}
+
+/**
+ * Generates the web path of a version's doc coverage summary.
+ * Example: undefined -> "/coverage", "0.14.0", ".json" -> "/0.14.0/coverage.json"
+ * @param version The route version, undefined for the default version.
+ * @param extension Optional extension, e.g. ".json" for the machine-readable summary.
+ * @returns The corresponding URL path.
+ */
+export function getCoveragePath(version?: string, extension = ""): string {
+    return `${getVersionPrefix(version)}/coverage${extension}`;
+}
+
+/**
+ * Generates the web path of a version's search index, loaded by Search.astro.
+ * Example: undefined -> "/search-index.json", "0.14.0" -> "/0.14.0/search-index.json"
+ * @param version The route version, undefined for the default version.
+ * @returns The corresponding URL path.
+ */
+export function getSearchIndexPath(version?: string): string {
+    return `${getVersionPrefix(version)}/search-index.json`;
+}
+
+/**
+ * Generates the web path of the list of a version's pages that the service
+ * worker downloads for offline use.
+ * Example: undefined -> "/offline-manifest.json", "0.14.0" -> "/0.14.0/offline-manifest.json"
+ * @param version The route version, undefined for the default version.
+ * @returns The corresponding URL path.
+ */
+export function getOfflineManifestPath(version?: string): string {
+    return `${getVersionPrefix(version)}/offline-manifest.json`;
+}
+
+/**
+ * Generates the web path of the API diff between two versions.
+ * Example: "0.13.0", "0.14.0" -> "/diff/0.13.0...0.14.0"
+ * @param from The version compared from.
+ * @param to The version compared to.
+ * @param extension Optional extension, e.g. ".json" for the machine-readable diff.
+ * @returns The corresponding URL path.
+ */
+export function getDiffPath(from: string, to: string, extension = ""): string {
+    return `/diff/${from}...${to}${extension}`;
+}
+
+/**
+ * Generates the web path of a JSON API dump file.
+ * Example: null -> "/api/index.json", "std" -> "/api/modules/std.json"
+ * @param moduleName The module whose file to link, or null for the index.
+ * @param version The route version, undefined for the default version.
+ * @returns The corresponding URL path.
+ */
+export function getApiPath(moduleName: string | null, version?: string): string {
+    const file = moduleName ? `modules/${moduleName}.json` : "index.json";
+    return `${getVersionPrefix(version)}/api/${file}`;
 }
 
 /**
@@ -41,4 +250,20 @@ export function getModuleSourcePath(moduleName: string | undefined | null): stri
     }
     const filePath = moduleName.replaceAll(".", "/") + ".zig";
     return getSourcePath(filePath);
-}
\ No newline at end of file
+}
+
+/**
+ * Prefixes a site path with the configured base URL (BASE_URL), the same
+ * way Link.astro does for links rendered by components. Needed for links
+ * inside HTML strings rendered with set:html.
+ * Example (BASE_URL=/zig-docs-astro): "/modules/std" -> "/zig-docs-astro/modules/std"
+ * @param sitePath The path relative to the site root.
+ * @returns The path including the base URL.
+ */
+export function withBase(sitePath: string): string {
+    if (sitePath === "#" || /^(?:[a-z]+:)?\/\//i.test(sitePath)) {
+        return sitePath;
+    }
+    const base = (import.meta.env.BASE_URL ?? "/").replace(/\/+$/, "");
+    return `${base}${sitePath.startsWith("/") ? sitePath : `/${sitePath}`}`;
+}
@@ -0,0 +1,69 @@
+import { getAllModules, getModuleData, getRouteVersion, getVersions } from "./docParser";
+import { getModuleDeclarations } from "./pathGenerator";
+import { getDeclPath } from "./pathUtils";
+import { htmlToText } from "./htmlTransform";
+
+// Maximum number of characters of doc text kept per entry; enough for ranking
+// without shipping every doc comment of the library to the browser.
+const MAX_DOCS_LENGTH = 200;
+
+export interface SearchEntry {
+  fqn: string;
+  name: string;
+  category: number;
+  path: string; // Path produced by getDeclPath, without the base URL
+  docs: string; // Plain text, truncated to MAX_DOCS_LENGTH
+}
+
+function summarizeDocs(docsHtml: string | undefined | null): string {
+  if (!docsHtml) return "";
+  const text = htmlToText(docsHtml).replace(/\s+/g, " ").trim();
+  return text.length > MAX_DOCS_LENGTH
+    ? `${text.slice(0, MAX_DOCS_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Builds the search index from the same traversal used to generate the
+ * declaration pages, plus one entry per module root.
+ * @param version Documented Zig version, defaults to the default one
+ * @returns {Promise<SearchEntry[]>} Entries sorted by FQN
+ */
+export async function buildSearchIndex(
+  version = getVersions()[0]
+): Promise<SearchEntry[]> {
+  const entries: SearchEntry[] = [];
+  const routeVersion = getRouteVersion(version);
+
+  for (const module of await getAllModules(version)) {
+    try {
+      const moduleData = await getModuleData(module.name, version);
+      entries.push({
+        fqn: module.name,
+        name: module.name,
+        category: -1, // Module roots have no declaration category
+        path: getDeclPath(module.name, routeVersion),
+        docs: summarizeDocs(moduleData.docs),
+      });
+    } catch (error) {
+      console.error(`Error indexing module ${module.name}:`, error);
+    }
+  }
+
+  // Module by module, so only a few cache shards are loaded at a time
+  for (const module of await getAllModules(version)) {
+    for (const declData of await getModuleDeclarations(module.name, version)) {
+      entries.push({
+        fqn: declData.fqn,
+        name: declData.name,
+        category: declData.category,
+        path: getDeclPath(declData.fqn, routeVersion),
+        docs: summarizeDocs(declData.docs),
+      });
+    }
+  }
+
+  entries.sort((a, b) => a.fqn.localeCompare(b.fqn));
+  console.log(`Built search index for ${version} with ${entries.length} entries.`);
+  return entries;
+}
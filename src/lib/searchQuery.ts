@@ -0,0 +1,128 @@
+// Browser-side search over the prebuilt index (see searchIndex.ts), shared by
+// the search box and the command palette
+import * as DeclCategories from "./constants";
+import type { SearchEntry } from "./searchIndex";
+
+// Loaded once per page and index URL
+const indexes = new Map<string, Promise<SearchEntry[]>>();
+
+/**
+ * Fetches a version's search index, once per page. A failed fetch is retried
+ * on the next call.
+ * @param url URL of the index, including the base URL
+ */
+export function loadSearchIndex(url: string): Promise<SearchEntry[]> {
+  let index = indexes.get(url);
+  if (!index) {
+    index = fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch search index: ${response.status}`);
+        }
+        return response.json() as Promise<SearchEntry[]>;
+      })
+      .catch((error) => {
+        console.error(error);
+        indexes.delete(url);
+        return [];
+      });
+    indexes.set(url, index);
+  }
+  return index;
+}
+
+/**
+ * Short label of a search entry's category, e.g. "fn" or "error set".
+ */
+export function categoryLabel(category: number): string {
+  switch (category) {
+    case -1:
+      return "module";
+    case DeclCategories.CAT_namespace:
+      return "namespace";
+    case DeclCategories.CAT_container:
+    case DeclCategories.CAT_type:
+    case DeclCategories.CAT_type_type:
+      return "type";
+    case DeclCategories.CAT_function:
+      return "fn";
+    case DeclCategories.CAT_type_function:
+      return "type fn";
+    case DeclCategories.CAT_error_set:
+      return "error set";
+    case DeclCategories.CAT_global_variable:
+      return "var";
+    case DeclCategories.CAT_global_const:
+      return "const";
+    case DeclCategories.CAT_primitive:
+      return "primitive";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Scores a single query term against an entry. Matches on the declaration
+ * name outrank matches on the FQN, which outrank matches in the doc text.
+ * Returns 0 when the term does not match at all.
+ */
+function scoreTerm(entry: SearchEntry, term: string, matchDocs: boolean): number {
+  const name = entry.name.toLowerCase();
+  const fqn = entry.fqn.toLowerCase();
+  if (name === term) return 100;
+  if (fqn === term) return 95;
+  if (fqn.endsWith(`.${term}`)) return 80;
+  if (name.startsWith(term)) return 60;
+  if (name.includes(term)) return 40;
+  if (fqn.includes(term)) return 30;
+  if (matchDocs && entry.docs.toLowerCase().includes(term)) return 10;
+  return 0;
+}
+
+/**
+ * Ranks the entries matching every term of a query.
+ * @param index The search index
+ * @param query Space-separated terms
+ * @param limit Maximum number of results
+ * @param matchDocs Whether terms may match the doc text, not only names and FQNs
+ */
+export function searchEntries(
+  index: SearchEntry[],
+  query: string,
+  limit: number,
+  matchDocs = true
+): SearchEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const scored: { entry: SearchEntry; score: number }[] = [];
+  for (const entry of index) {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = scoreTerm(entry, term, matchDocs);
+      if (termScore === 0) {
+        score = 0;
+        break; // Every term has to match
+      }
+      score += termScore;
+    }
+    if (score > 0) scored.push({ entry, score });
+  }
+
+  // Prefer higher scores, then shallower declarations, then alphabetical order
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.entry.fqn.split(".").length - b.entry.fqn.split(".").length ||
+      a.entry.fqn.localeCompare(b.entry.fqn)
+  );
+  return scored.slice(0, limit).map(({ entry }) => entry);
+}
+
+/**
+ * Whether a key press goes to a text field, where it mustn't trigger shortcuts.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
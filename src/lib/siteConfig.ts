@@ -0,0 +1,99 @@
+import userConfig from "../../zigdocs.config";
+import type { DocSetConfig, ZigDocsConfig } from "./config";
+import type { LineRange } from "./sourceFiles";
+import { formatSourceUrl } from "./pathUtils";
+
+const DEFAULT_TITLE = "Zig Documentation";
+
+export interface SiteConfig {
+  title: string;
+  repoUrl: string | null;
+  /**
+   * Forge URL template the [src] links point to instead of the hosted /src/
+   * pages, with {ref}, {file}, {line} and {endLine} placeholders, e.g.
+   * "https://github.com/ziglang/zig/blob/{ref}/lib/{file}#L{line}-L{endLine}".
+   * Set by ZIG_DOCS_SOURCE_URL or `sourceUrl`.
+   */
+  sourceUrl: string | null;
+  /**
+   * Whether non-pub declarations are documented too, marked as private.
+   * Set by ZIG_DOCS_PRIVATE or `includePrivate`.
+   */
+  includePrivate: boolean;
+  docSets: DocSetConfig[];
+  modules: ZigDocsConfig["modules"] | null;
+  /**
+   * Whether the build fails when the build report lists errors (failed
+   * modules or declarations, unresolved aliases, unknown categories, dangling
+   * links). Set by ZIG_DOCS_STRICT or `strict`.
+   */
+  strict: boolean;
+}
+
+// Reads a boolean environment variable, undefined if it isn't set
+function readFlag(value: string | undefined): boolean | undefined {
+  if (!value) return undefined;
+  return value !== "0" && value !== "false";
+}
+
+/**
+ * Returns zigdocs.config.ts with its defaults and environment overrides applied.
+ */
+export function getSiteConfig(
+  config: ZigDocsConfig = userConfig,
+  env: NodeJS.ProcessEnv = process.env
+): SiteConfig {
+  return {
+    title: config.title || DEFAULT_TITLE,
+    repoUrl: config.repoUrl || null,
+    sourceUrl: env.ZIG_DOCS_SOURCE_URL || config.sourceUrl || null,
+    includePrivate: readFlag(env.ZIG_DOCS_PRIVATE) ?? config.includePrivate ?? false,
+    docSets: config.docSets ?? [],
+    modules: config.modules ?? null,
+    strict: readFlag(env.ZIG_DOCS_STRICT) ?? config.strict ?? false,
+  };
+}
+
+/**
+ * Whether a module is exposed on the site, per the `modules` config option.
+ */
+export function isModuleExposed(name: string, config = getSiteConfig()): boolean {
+  const { modules } = config;
+  if (!modules) return true;
+  return typeof modules === "function" ? modules(name) : modules.includes(name);
+}
+
+/**
+ * The git ref a version's sources are linked at: the docSet's `ref`, or the
+ * version label itself (which matches Zig's release tags and "master").
+ */
+export function getSourceRef(version: string, config = getSiteConfig()): string {
+  const docSet = config.docSets.find((candidate) => candidate.version === version);
+  return docSet?.ref || version;
+}
+
+/**
+ * Whether the site builds its own /src/ pages: not when a `sourceUrl` links
+ * the sources on a forge instead.
+ */
+export function hostsSources(config = getSiteConfig()): boolean {
+  return !config.sourceUrl;
+}
+
+/**
+ * Links a source file on the configured forge.
+ * @param filePath The file path relative to the source root.
+ * @param lines Optional 1-based line range.
+ * @param version The actual version the file belongs to.
+ * @returns The URL, or null if no `sourceUrl` is configured and the hosted
+ *   /src/ pages should be linked instead.
+ */
+export function getExternalSourceUrl(
+  filePath: string | undefined | null,
+  lines: LineRange | null | undefined,
+  version: string,
+  config = getSiteConfig()
+): string | null {
+  if (!config.sourceUrl) return null;
+  return formatSourceUrl(config.sourceUrl, filePath, lines, getSourceRef(version, config));
+}
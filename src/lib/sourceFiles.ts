@@ -0,0 +1,272 @@
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+const BLOCK_SIZE = 512;
+
+export interface SourceFile {
+  path: string; // Path inside the tarball, e.g. "std/mem.zig"
+  content: string;
+}
+
+export interface LineRange {
+  start: number; // 1-based, inclusive
+  end: number; // 1-based, inclusive
+}
+
+function readField(block: Uint8Array, offset: number, length: number): string {
+  const bytes = block.subarray(offset, offset + length);
+  const nul = bytes.indexOf(0);
+  return textDecoder.decode(nul === -1 ? bytes : bytes.subarray(0, nul));
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const value = readField(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+/**
+ * Parses the PAX extended header records we care about (only `path`).
+ * Records have the form "<length> <key>=<value>\n".
+ */
+function readPaxPath(data: Uint8Array): string | null {
+  const text = textDecoder.decode(data);
+  for (const record of text.split("\n")) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Extracts the regular files from a ustar archive such as sources.tar.
+ * Supports the ustar prefix field, PAX `path` records and GNU long names,
+ * which covers the archives produced by `zig build-lib -femit-docs`.
+ * @param buffer The raw tarball contents
+ * @returns The files in archive order
+ */
+export function readTarEntries(buffer: Uint8Array): SourceFile[] {
+  const files: SourceFile[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks mark the end of the archive; one is enough to stop
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30); // NUL means regular file
+    const dataStart = offset + BLOCK_SIZE;
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === "x") {
+      longName = readPaxPath(data);
+      continue;
+    }
+    if (type === "L") {
+      longName = readField(data, 0, data.length);
+      continue;
+    }
+
+    let name = readField(header, 0, 100);
+    if (readField(header, 257, 5) === "ustar") {
+      const prefix = readField(header, 345, 155);
+      if (prefix) name = `${prefix}/${name}`;
+    }
+    if (longName) {
+      name = longName;
+      longName = null;
+    }
+
+    if (type === "0" || type === "7") {
+      files.push({
+        path: name.replace(/^\.?\/+/, ""),
+        content: textDecoder.decode(data),
+      });
+    }
+  }
+
+  return files;
+}
+
+function writeField(block: Uint8Array, offset: number, length: number, value: string): void {
+  block.set(textEncoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  writeField(block, offset, length, `${value.toString(8).padStart(length - 1, "0")}\0`);
+}
+
+// Builds one header block; every metadata field is fixed so the same files
+// always produce the same archive
+function tarHeader(name: string, prefix: string, size: number, type: string): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeField(header, 0, 100, name);
+  writeOctal(header, 100, 8, 0o644); // mode
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, 0); // mtime
+  writeField(header, 148, 8, " ".repeat(8)); // checksum placeholder
+  writeField(header, 156, 1, type);
+  writeField(header, 257, 8, "ustar\x0000");
+  writeField(header, 345, 155, prefix);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeField(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return header;
+}
+
+// Splits a path into the ustar prefix and name fields, or returns null if it doesn't fit
+function splitUstarPath(path: string): { prefix: string; name: string } | null {
+  if (textEncoder.encode(path).length <= 100) return { prefix: "", name: path };
+  for (let slash = path.indexOf("/"); slash !== -1; slash = path.indexOf("/", slash + 1)) {
+    const prefix = path.slice(0, slash);
+    const name = path.slice(slash + 1);
+    if (textEncoder.encode(prefix).length <= 155 && textEncoder.encode(name).length <= 100) {
+      return { prefix, name };
+    }
+  }
+  return null;
+}
+
+// Encodes a PAX "path" record; its length prefix counts its own digits
+function paxPathRecord(path: string): Uint8Array {
+  const body = ` path=${path}\n`;
+  const bodyLength = textEncoder.encode(body).length;
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) length = String(length).length + bodyLength;
+  return textEncoder.encode(`${length}${body}`);
+}
+
+/**
+ * Writes files into a ustar archive readable by the WASM's `unpack` (and by
+ * readTarEntries). Paths too long for ustar get a PAX `path` record.
+ * @param files The files in archive order
+ * @returns The raw tarball contents
+ */
+export function writeTarEntries(files: SourceFile[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const pushData = (data: Uint8Array) => {
+    chunks.push(data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) chunks.push(new Uint8Array(padding));
+  };
+
+  for (const file of files) {
+    const content = textEncoder.encode(file.content);
+    let fields = splitUstarPath(file.path);
+    if (!fields) {
+      const record = paxPathRecord(file.path);
+      chunks.push(tarHeader("PaxHeader", "", record.length, "x"));
+      pushData(record);
+      fields = { prefix: "", name: file.path.slice(-100) };
+    }
+    chunks.push(tarHeader(fields.name, fields.prefix, content.length, "0"));
+    pushData(content);
+  }
+  chunks.push(new Uint8Array(BLOCK_SIZE * 2)); // End of archive
+
+  const archive = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    archive.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return archive;
+}
+
+/**
+ * Locates a declaration's source snippet inside the file it belongs to.
+ * Lines are compared with surrounding whitespace trimmed, because the WASM
+ * renders snippets without the indentation they have in the file.
+ * @param fileContent Full text of the source file
+ * @param snippet Source text of the declaration (as rendered by the WASM)
+ * @param within Lines to search, e.g. those of the declaring container, since
+ *   short snippets like `const Self = @This();` repeat in a file; defaults to the whole file
+ * @returns The 1-based line range, or null if the snippet can't be found
+ */
+export function findLineRange(
+  fileContent: string,
+  snippet: string | undefined | null,
+  within?: LineRange | null
+): LineRange | null {
+  if (!snippet) return null;
+  const snippetLines = snippet.trim().split("\n").map((line) => line.trim());
+  const fileLines = fileContent.split("\n").map((line) => line.trim());
+  const last = within ? Math.min(within.end, fileLines.length) : fileLines.length;
+
+  for (let i = within ? within.start - 1 : 0; i + snippetLines.length <= last; i++) {
+    if (fileLines[i] !== snippetLines[0]) continue;
+    let matches = true;
+    for (let j = 1; j < snippetLines.length; j++) {
+      if (fileLines[i + j] !== snippetLines[j]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return { start: i + 1, end: i + snippetLines.length };
+  }
+  return null;
+}
+
+/**
+ * Reads the name of a Zig test block from its source.
+ * Example: 'test "parse ints" {' -> "parse ints", "test ArrayList {" -> "ArrayList"
+ * @param testSource Source of the test block
+ * @returns The name, or null for unnamed tests
+ */
+export function parseTestName(testSource: string): string | null {
+  const match = /^\s*test\s+(?:"((?:[^"\\]|\\.)*)"|(@"(?:[^"\\]|\\.)*"|[A-Za-z_][\w.]*))/.exec(
+    testSource
+  );
+  return match ? match[1] ?? match[2] : null;
+}
+
+// "////" starts a regular comment, not a doc comment
+function isDocLine(line: string | undefined, marker: string): boolean {
+  return line !== undefined && line.startsWith(marker) && !line.startsWith("////");
+}
+
+// Strips the comment marker and the single space usually following it
+function stripDocMarker(line: string, marker: string): string {
+  return line.slice(marker.length).replace(/^ /, "").trimEnd();
+}
+
+/**
+ * Extracts the markdown of the doc comment (`///` lines) attached to a
+ * declaration, whether the line range starts at the comment or right after it.
+ * @param fileContent Content of the file holding the declaration
+ * @param lines 1-based line range of the declaration
+ * @returns The markdown, or an empty string if the declaration has no doc comment
+ */
+export function extractDocComment(fileContent: string, lines: LineRange): string {
+  // Only leading indentation is dropped, indentation inside the comment is markdown
+  const fileLines = fileContent.split("\n").map((line) => line.trimStart());
+  const docLines: string[] = [];
+
+  // Comment included at the start of the range
+  for (let i = lines.start - 1; i < lines.end && isDocLine(fileLines[i], "///"); i++) {
+    docLines.push(stripDocMarker(fileLines[i], "///"));
+  }
+  if (docLines.length > 0) return docLines.join("\n");
+
+  // Comment right above the range
+  for (let i = lines.start - 2; i >= 0 && isDocLine(fileLines[i], "///"); i--) {
+    docLines.unshift(stripDocMarker(fileLines[i], "///"));
+  }
+  return docLines.join("\n");
+}
+
+/**
+ * Extracts the markdown of a file's top-level doc comment (`//!` lines),
+ * which documents the container the file defines, e.g. a module root.
+ */
+export function extractFileDocComment(fileContent: string): string {
+  const docLines: string[] = [];
+  for (const line of fileContent.split("\n").map((line) => line.trimStart())) {
+    if (isDocLine(line, "//!")) docLines.push(stripDocMarker(line, "//!"));
+    else if (line.trim() !== "" || docLines.length > 0) break;
+  }
+  return docLines.join("\n");
+}
@@ -0,0 +1,228 @@
+// Typed model of the data docParser.ts extracts from the WASM.
+import * as DeclCategories from "./constants";
+import type { LineRange } from "./sourceFiles";
+
+// Index of a declaration inside the WASM. 0xffffffff means "none".
+export type DeclIndex = number;
+
+// Packed error identifier, see error_set_node_list and error_html: the token
+// of the error's name in the low 32 bits, the declaration it is written in
+// in the high 32 bits
+export type ErrorNode = bigint;
+
+export type DeclCategory =
+  | typeof DeclCategories.CAT_namespace
+  | typeof DeclCategories.CAT_container
+  | typeof DeclCategories.CAT_global_variable
+  | typeof DeclCategories.CAT_function
+  | typeof DeclCategories.CAT_primitive
+  | typeof DeclCategories.CAT_error_set
+  | typeof DeclCategories.CAT_global_const
+  | typeof DeclCategories.CAT_alias
+  | typeof DeclCategories.CAT_type
+  | typeof DeclCategories.CAT_type_type
+  | typeof DeclCategories.CAT_type_function;
+
+// How a declaration mentions another one, see getDeclReferences
+export type ReferenceKind = "parameter" | "return" | "field";
+
+export interface DeclReference {
+  fqn: string; // The declaration mentioned (or mentioning it, see getReferencesTo)
+  kind: ReferenceKind;
+}
+
+// Problems found while generating the docs, see buildReport.ts
+export type BuildIssueKind =
+  | "failed-module" // The module couldn't be generated and has no pages
+  | "failed-declaration" // A declaration couldn't be read, its page and members are missing
+  | "unresolved-alias" // An alias whose target couldn't be found
+  | "unknown-category" // A category this site doesn't know how to render
+  | "dangling-link" // A link to a declaration without a page
+  | "missing-docs"; // A public declaration without a doc comment
+
+// Doc comment coverage, see coverage.ts
+export interface CoverageCount {
+  documented: number;
+  total: number;
+}
+
+export interface UndocumentedItem {
+  kind: "declaration" | "field" | "param";
+  fqn: string; // The declaration, or the container or function of a field or param
+  name?: string; // Name of the field or param
+}
+
+// Coverage of a container's public members: its declarations, its fields and
+// the params of its functions
+export interface ContainerCoverage {
+  fqn: string;
+  declarations: CoverageCount;
+  fields: CoverageCount;
+  params: CoverageCount;
+  undocumented: UndocumentedItem[];
+}
+
+export interface BuildIssue {
+  kind: BuildIssueKind;
+  fqn: string; // The declaration (or module) concerned
+  detail?: string; // The error, category or link target
+}
+
+export interface ModuleInfo {
+  name: string;
+  rootDeclIndex: DeclIndex;
+}
+
+/**
+ * The container a type is written as, parsed from its source (see
+ * containerKind.ts), e.g. `packed struct(u32)`, `enum(u8)` or `union(enum)`.
+ */
+export interface ContainerKind {
+  keyword: "struct" | "enum" | "union" | "opaque";
+  layout: "packed" | "extern" | null;
+  argument: string | null; // Backing integer, tag type or union tag, e.g. "u8" or "enum"; null if not written
+}
+
+/**
+ * A type function that builds a type, e.g. `fn ArrayList(comptime T: type) type`,
+ * as opposed to one computing with existing types, like `std.meta.Child`.
+ */
+export interface TypeConstructor {
+  returns: ContainerKind | null; // The container it returns; null when it calls another constructor
+}
+
+/**
+ * Summary of a declaration as listed on module and container pages
+ * (see processDeclarations). Aliases are resolved: name and fqn are the
+ * alias', everything else describes the target.
+ */
+export interface DeclSummary {
+  originalIndex: DeclIndex;
+  targetIndex: DeclIndex;
+  name: string;
+  fqn: string;
+  targetFqn: string;
+  aliasChain: string[]; // FQNs the alias resolves through, ending with targetFqn; empty if not an alias
+  isPrivate: boolean; // Not pub; only listed when private members are included
+  category: DeclCategory;
+  categoryName: string;
+  docsShort: string;
+  typeHtml: string;
+  protoHtmlShort: string | null; // Only for functions and type functions
+  containerKind: ContainerKind | null; // Only for containers, types and namespaces, when known
+  typeConstructor: TypeConstructor | null; // Only for type functions building a type
+}
+
+export interface ModuleData {
+  name: string;
+  rootDeclIndex: DeclIndex;
+  filePath: string;
+  docs: string;
+  declarations: DeclSummary[];
+  fields: number[];
+}
+
+/**
+ * The doctest of a declaration: the `test` block named after it, e.g.
+ * `test ArrayList { ... }`, shown as its usage example.
+ */
+export interface Doctest {
+  name: string; // The test's name, e.g. "ArrayList"
+  code: string; // Source of the whole test block, as plain text
+  html: string; // Source of the whole test block, sanitized WASM HTML
+  sourceLines: LineRange | null; // Line range inside the declaration's filePath, if located
+}
+
+// A member of an error set, see getErrorSetErrors
+export interface ErrorEntry {
+  name: string; // e.g. "OutOfMemory"
+  docsHtml: string; // Its doc comment, sanitized WASM HTML
+  originFqn: string; // Declaration it is written in, another set for merged sets (A || B)
+}
+
+// Data shared by every declaration kind (see getDeclData)
+interface DeclBase {
+  index: DeclIndex; // The resolved index
+  originalIndex: DeclIndex; // The index requested (could be an alias)
+  name: string; // Name of the requested declaration
+  fqn: string; // FQN of the requested declaration
+  targetFqn: string; // FQN of the resolved declaration
+  aliasChain: string[]; // FQNs the alias resolves through, ending with targetFqn; empty if not an alias
+  isPrivate: boolean; // Not pub; only generated when private members are included
+  categoryName: string;
+  filePath: string;
+  sourceLines: LineRange | null; // Line range inside filePath, if located
+  docs: string;
+  sourceHtml: string;
+  typeHtml: string;
+  isAlias: boolean;
+}
+
+export interface FunctionDecl extends DeclBase {
+  category: typeof DeclCategories.CAT_function | typeof DeclCategories.CAT_type_function;
+  protoHtml: string;
+  params: number[];
+  doctest: Doctest | null;
+  errorSetBaseDecl?: DeclIndex; // Declaration the error set is relative to
+  errorSetNodes: ErrorNode[];
+  typeConstructor: TypeConstructor | null; // Only for type functions building a type
+}
+
+export interface ContainerDecl extends DeclBase {
+  category:
+    | typeof DeclCategories.CAT_container
+    | typeof DeclCategories.CAT_type
+    | typeof DeclCategories.CAT_namespace;
+  fields: number[];
+  members: DeclIndex[];
+  doctest: Doctest | null;
+  containerKind: ContainerKind | null; // null for types the source doesn't spell out, e.g. @This()
+}
+
+export interface ErrorSetDecl extends DeclBase {
+  category: typeof DeclCategories.CAT_error_set;
+  errorSetNodes: ErrorNode[];
+}
+
+export interface VariableDecl extends DeclBase {
+  category: typeof DeclCategories.CAT_global_variable | typeof DeclCategories.CAT_global_const;
+}
+
+export interface PrimitiveDecl extends DeclBase {
+  category: typeof DeclCategories.CAT_primitive;
+}
+
+// Types of types, and aliases that couldn't be resolved
+export interface OtherDecl extends DeclBase {
+  category: typeof DeclCategories.CAT_type_type | typeof DeclCategories.CAT_alias;
+}
+
+/**
+ * A declaration with the data of its kind, discriminated on `category`.
+ */
+export type DeclData =
+  | FunctionDecl
+  | ContainerDecl
+  | ErrorSetDecl
+  | VariableDecl
+  | PrimitiveDecl
+  | OtherDecl;
+
+export function isFunctionDecl(decl: DeclData): decl is FunctionDecl {
+  return (
+    decl.category === DeclCategories.CAT_function ||
+    decl.category === DeclCategories.CAT_type_function
+  );
+}
+
+export function isContainerDecl(decl: DeclData): decl is ContainerDecl {
+  return (
+    decl.category === DeclCategories.CAT_container ||
+    decl.category === DeclCategories.CAT_type ||
+    decl.category === DeclCategories.CAT_namespace
+  );
+}
+
+export function isErrorSetDecl(decl: DeclData): decl is ErrorSetDecl {
+  return decl.category === DeclCategories.CAT_error_set;
+}
@@ -1,6 +1,61 @@
+import type { DeclIndex, ErrorNode } from "./types";
+
+// A slice or string returned by the WASM, packed as ptr | len << 32.
+// Decode with unwrapString, unwrapSlice32 or unwrapSlice64.
+export type WasmSlice = bigint;
+
+/**
+ * Functions exported by the docs main.wasm built by Zig's autodoc.
+ * Booleans are passed as JS booleans, which the WASM receives as 0 or 1.
+ */
+export interface WasmExports {
+  memory: WebAssembly.Memory;
+
+  // Memory and input
+  alloc(len: number): number;
+  free?(ptr: number, len: number): void;
+  unpack(ptr: number, len: number): void; // Loads sources.tar
+  set_input_string(len: number): number;
+
+  // Modules
+  module_name(moduleIndex: number): WasmSlice;
+  find_module_root(moduleIndex: number): DeclIndex;
+
+  // Declarations
+  find_decl(): DeclIndex; // Looks up the FQN written with set_input_string
+  decl_fqn(decl: DeclIndex): WasmSlice;
+  decl_name(decl: DeclIndex): WasmSlice;
+  decl_file_path(decl: DeclIndex): WasmSlice;
+  decl_parent(decl: DeclIndex): DeclIndex; // 0xFFFFFFFF for file roots
+  decl_category_name(decl: DeclIndex): WasmSlice;
+  categorize_decl(decl: DeclIndex, resolveAliasCount: number): number;
+  get_aliasee(decl: DeclIndex): DeclIndex;
+  namespace_members(decl: DeclIndex, includePrivate: boolean): WasmSlice; // u32 indices
+
+  // HTML renderings
+  decl_docs_html(decl: DeclIndex, short: boolean): WasmSlice;
+  decl_fn_proto_html(decl: DeclIndex, linkifyFnName: boolean): WasmSlice;
+  decl_type_html(decl: DeclIndex): WasmSlice;
+  decl_source_html(decl: DeclIndex): WasmSlice;
+  decl_doctest_html(decl: DeclIndex): WasmSlice;
+
+  // Parameters and fields
+  decl_params(decl: DeclIndex): WasmSlice; // u32 indices
+  decl_param_html(decl: DeclIndex, param: number): WasmSlice;
+  decl_fields(decl: DeclIndex): WasmSlice; // u32 indices
+  decl_field_html(decl: DeclIndex, field: number): WasmSlice;
+
+  // Error sets
+  fn_error_set(decl: DeclIndex): ErrorNode; // 0n when the function has none
+  fn_error_set_decl(decl: DeclIndex, node: ErrorNode): DeclIndex;
+  error_set_node_list(baseDecl: DeclIndex, node: ErrorNode): WasmSlice; // u64 error nodes
+  decl_error_set(decl: DeclIndex): WasmSlice; // u64 error nodes
+  error_html(baseDecl: DeclIndex, error: ErrorNode): WasmSlice;
+}
+
 // Internal state - initialized by docParser.ts
 let _memory: WebAssembly.Memory | null = null;
-let _wasmExports: any | null = null;
+let _wasmExports: WasmExports | null = null;
 const textDecoder = new TextDecoder();
 const textEncoder = new TextEncoder();
 
@@ -8,12 +63,12 @@ const textEncoder = new TextEncoder();
  * Initializes the WASM utility functions with the instantiated memory and exports.
  * Must be called before any other utility function.
  */
-export function initializeWasmUtils(memory: WebAssembly.Memory, exports: any): void {
+export function initializeWasmUtils(memory: WebAssembly.Memory, exports: WasmExports): void {
   _memory = memory;
   _wasmExports = exports;
 }
 
-function ensureInitialized(): { memory: WebAssembly.Memory; exports: any } {
+function ensureInitialized(): { memory: WebAssembly.Memory; exports: WasmExports } {
   if (!_memory || !_wasmExports) {
     throw new Error("WASM utils not initialized. Call initializeWasmUtils first.");
   }
@@ -25,7 +80,7 @@ export function decodeString(ptr: number, len: number): string {
   return textDecoder.decode(new Uint8Array(memory.buffer, ptr, len));
 }
 
-export function unwrapString(bigint: bigint): string {
+export function unwrapString(bigint: WasmSlice): string {
   const { memory, exports } = ensureInitialized();
   const ptr = Number(bigint & 0xffffffffn);
   const len = Number(bigint >> 32n);
@@ -41,7 +96,7 @@ export function unwrapString(bigint: bigint): string {
 }
 
 
-export function unwrapSlice32(bigint: bigint): Uint32Array {
+export function unwrapSlice32(bigint: WasmSlice): Uint32Array {
   const { memory } = ensureInitialized();
   const ptr = Number(bigint & 0xffffffffn);
   const len = Number(bigint >> 32n);
@@ -57,7 +112,7 @@ export function unwrapSlice32(bigint: bigint): Uint32Array {
   return new Uint32Array(memory.buffer, byteOffset, len).slice();
 }
 
-export function unwrapSlice64(bigint: bigint): BigUint64Array {
+export function unwrapSlice64(bigint: WasmSlice): BigUint64Array {
   const { memory } = ensureInitialized();
   const ptr = Number(bigint & 0xffffffffn);
   const len = Number(bigint >> 32n);
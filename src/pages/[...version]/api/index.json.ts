@@ -0,0 +1,18 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getRouteVersion, getVersions } from "../../../lib/docParser";
+import { buildApiIndex } from "../../../lib/apiDump";
+
+export const getStaticPaths = (() => {
+  return getVersions().map((version) => ({
+    params: { version: getRouteVersion(version) },
+    props: { version },
+  }));
+}) satisfies GetStaticPaths;
+
+// Index of the JSON API dump, listing one file per module
+export const GET: APIRoute = async ({ props }) => {
+  const index = await buildApiIndex(props.version);
+  return new Response(JSON.stringify(index), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
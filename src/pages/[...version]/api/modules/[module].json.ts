@@ -0,0 +1,23 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getAllModules, getRouteVersion, getVersions } from "../../../../lib/docParser";
+import { buildApiModule } from "../../../../lib/apiDump";
+
+export const getStaticPaths = (async () => {
+  const pathsPerVersion = await Promise.all(
+    getVersions().map(async (version) =>
+      (await getAllModules(version)).map((module) => ({
+        params: { version: getRouteVersion(version), module: module.name },
+        props: { version },
+      }))
+    )
+  );
+  return pathsPerVersion.flat();
+}) satisfies GetStaticPaths;
+
+// Every declaration of a module as JSON, e.g. /api/modules/std.json
+export const GET: APIRoute = async ({ params, props }) => {
+  const module = await buildApiModule(params.module!, props.version);
+  return new Response(JSON.stringify(module), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
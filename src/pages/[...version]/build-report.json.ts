@@ -0,0 +1,16 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getRouteVersion, getVersions } from "../../lib/docParser";
+import { getBuildReport } from "../../lib/buildReport";
+
+export const getStaticPaths = (() =>
+  getVersions().map((version) => ({
+    params: { version: getRouteVersion(version) },
+    props: { version },
+  }))) satisfies GetStaticPaths;
+
+// The build report of a version as JSON, e.g. /build-report.json
+export const GET: APIRoute = async ({ props }) => {
+  return new Response(JSON.stringify(await getBuildReport(props.version)), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
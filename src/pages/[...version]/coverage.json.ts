@@ -0,0 +1,16 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getRouteVersion, getVersions } from "../../lib/docParser";
+import { getCoverageReport } from "../../lib/coverage";
+
+export const getStaticPaths = (() =>
+  getVersions().map((version) => ({
+    params: { version: getRouteVersion(version) },
+    props: { version },
+  }))) satisfies GetStaticPaths;
+
+// Doc coverage per module and container as JSON, e.g. /coverage.json
+export const GET: APIRoute = async ({ props }) => {
+  return new Response(JSON.stringify(await getCoverageReport(props.version)), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
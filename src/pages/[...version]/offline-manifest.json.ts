@@ -0,0 +1,17 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getRouteVersion, getVersions } from "../../lib/docParser";
+import { getOfflineUrls } from "../../lib/offline";
+
+export const getStaticPaths = (() =>
+  getVersions().map((version) => ({
+    params: { version: getRouteVersion(version) },
+    props: { version },
+  }))) satisfies GetStaticPaths;
+
+// Every page of a version, downloaded by the service worker for offline use
+export const GET: APIRoute = async ({ props }) => {
+  const manifest = { version: props.version, urls: await getOfflineUrls(props.version) };
+  return new Response(JSON.stringify(manifest), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
@@ -0,0 +1,18 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getRouteVersion, getVersions } from "../../lib/docParser";
+import { buildSearchIndex } from "../../lib/searchIndex";
+
+export const getStaticPaths = (() => {
+  return getVersions().map((version) => ({
+    params: { version: getRouteVersion(version) },
+    props: { version },
+  }));
+}) satisfies GetStaticPaths;
+
+// Prebuilt search index consumed by the Search component in the browser
+export const GET: APIRoute = async ({ props }) => {
+  const entries = await buildSearchIndex(props.version);
+  return new Response(JSON.stringify(entries), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getAllModules, getRouteVersion, getVersions } from "../../../lib/docParser";
+import { buildModuleTree } from "../../../lib/moduleTree";
+
+export const getStaticPaths = (async () => {
+  const pathsPerVersion = await Promise.all(
+    getVersions().map(async (version) =>
+      (await getAllModules(version)).map((module) => ({
+        params: { version: getRouteVersion(version), module: module.name },
+        props: { version },
+      }))
+    )
+  );
+  return pathsPerVersion.flat();
+}) satisfies GetStaticPaths;
+
+// The member tree of a module shown in the sidebar, e.g. /trees/std.json
+export const GET: APIRoute = async ({ params, props }) => {
+  const tree = await buildModuleTree(params.module!, props.version);
+  return new Response(JSON.stringify(tree), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
@@ -0,0 +1,17 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { buildApiDiff, formatDiffPair, getDiffPairs } from "../../lib/apiDiff";
+
+export const getStaticPaths = (() => {
+  return getDiffPairs().map((pair) => ({
+    params: { pair: formatDiffPair(pair) },
+    props: { pair },
+  }));
+}) satisfies GetStaticPaths;
+
+// Machine-readable API diff, e.g. /diff/0.13.0...0.14.0.json
+export const GET: APIRoute = async ({ props }) => {
+  const diff = await buildApiDiff(props.pair);
+  return new Response(JSON.stringify(diff), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
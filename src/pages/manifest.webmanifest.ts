@@ -0,0 +1,20 @@
+import type { APIRoute } from "astro";
+import { withBase } from "../lib/pathUtils";
+import { getSiteConfig } from "../lib/siteConfig";
+
+// Web app manifest, so the site can be installed and opened offline
+export const GET: APIRoute = () => {
+  const { title } = getSiteConfig();
+  const manifest = {
+    name: title,
+    short_name: title,
+    start_url: withBase("/"),
+    scope: withBase("/"),
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#f7a41d",
+  };
+  return new Response(JSON.stringify(manifest), {
+    headers: { "Content-Type": "application/manifest+json" },
+  });
+};
@@ -0,0 +1,139 @@
+import type { APIRoute } from "astro";
+import { getPrecacheUrls } from "../lib/offline";
+import { withBase } from "../lib/pathUtils";
+
+// Every build gets its own cache, so pages and the hashed assets they load
+// always come from the same build; older caches are dropped on activation
+const CACHE_NAME = `zig-docs-${Date.now().toString(36)}`;
+
+// Service worker making the site work offline, registered by Layout.astro.
+// Served from the base URL, so its scope covers every version.
+export const GET: APIRoute = () => {
+  const script = `
+const BASE = ${JSON.stringify(withBase("/").replace(/\/?$/, "/"))};
+const CACHE_NAME = ${JSON.stringify(CACHE_NAME)};
+const PRECACHE_URLS = ${JSON.stringify(getPrecacheUrls())};
+const ASSETS = BASE + "_astro/";
+const DOWNLOAD_CONCURRENCY = 6;
+
+// Static hosts serve "/x", "/x/" and "/x/index.html" alike, so they share a key
+function cacheKey(url) {
+  const { origin, pathname } = new URL(url, self.location.href);
+  return origin + pathname.replace(/\\/index\\.html$/, "/").replace(/(.)\\/$/, "$1");
+}
+
+// Redirected responses can't answer navigations, so a plain copy is stored
+async function put(cache, url, response) {
+  const body = await response.blob();
+  const { status, statusText, headers } = response;
+  await cache.put(cacheKey(url), new Response(body, { status, statusText, headers }));
+}
+
+async function fetchAndCache(cache, url) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(url + ": " + response.status);
+  await put(cache, url, response.clone());
+  return response;
+}
+
+// Stylesheets and scripts of the build a page loads
+async function getAssetUrls(response) {
+  if (!(response.headers.get("Content-Type") || "").includes("text/html")) return [];
+  const html = await response.text();
+  const urls = new Set();
+  for (const [, href] of html.matchAll(/(?:href|src)="([^"]+)"/g)) {
+    const url = new URL(href, response.url);
+    if (url.origin === self.location.origin && url.pathname.startsWith(ASSETS)) urls.add(url.href);
+  }
+  return [...urls];
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    for (const url of PRECACHE_URLS) {
+      const response = await fetchAndCache(cache, url);
+      await Promise.all((await getAssetUrls(response)).map((asset) => fetchAndCache(cache, asset)));
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name.startsWith("zig-docs-") && name !== CACHE_NAME) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Build assets have hashed names and never change
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  return (await cache.match(cacheKey(request.url))) || fetchAndCache(cache, request.url);
+}
+
+// Pages and data are refreshed when online, and kept for offline use once visited
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await put(cache, request.url, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey(request.url));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || !url.pathname.startsWith(BASE)) return;
+  event.respondWith(url.pathname.startsWith(ASSETS) ? cacheFirst(request) : networkFirst(request));
+});
+
+// "Download for offline": caches every page of a version's offline manifest
+// with the assets they load, reporting progress to the page that asked
+async function downloadAll(manifestUrl, client) {
+  const cache = await caches.open(CACHE_NAME);
+  const { urls } = await (await fetch(manifestUrl)).json();
+  const queue = [...urls];
+  const seenAssets = new Set();
+  let done = 0;
+  let failed = 0;
+  const report = () => client && client.postMessage({ type: "offline-progress", done, failed, total: urls.length });
+
+  async function next() {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      try {
+        if (!(await cache.match(cacheKey(url)))) {
+          const assets = await getAssetUrls(await fetchAndCache(cache, url));
+          for (const asset of assets.filter((asset) => !seenAssets.has(asset))) {
+            seenAssets.add(asset);
+            if (!(await cache.match(cacheKey(asset)))) await fetchAndCache(cache, asset);
+          }
+        }
+      } catch {
+        failed++;
+      }
+      done++;
+      if (done % 25 === 0) report();
+    }
+  }
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, next));
+  report();
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "offline-download") {
+    event.waitUntil(downloadAll(event.data.manifest, event.source));
+  }
+});
+`;
+  return new Response(script.trimStart(), {
+    headers: { "Content-Type": "text/javascript" },
+  });
+};
@@ -0,0 +1,36 @@
+import { defineConfig } from "./src/lib/config";
+
+// Configures what the site documents. Without docSets the Zig standard
+// library is documented, as selected by the ZIG_VERSION(S) and ZIG_DOCS_*
+// environment variables, which also override the docSets below when set.
+export default defineConfig({
+  title: "Zig Documentation",
+
+  // repoUrl: "https://github.com/me/mylib",
+
+  // Link [src] to the forge instead of the hosted /src/ pages. {file} is the
+  // path inside sources.tar, which starts with the module name (std/mem.zig).
+  // sourceUrl: "https://github.com/ziglang/zig/blob/{ref}/lib/{file}#L{line}-L{endLine}",
+
+  // docSets: [
+  //   // Pack a local library into sources.tar, rendered by Zig 0.14.0's main.wasm
+  //   {
+  //     version: "main",
+  //     zigVersion: "0.14.0",
+  //     packages: [{ name: "mylib", dir: "../mylib/src", root: "root.zig" }],
+  //   },
+  //   // Docs emitted by `zig build-lib -femit-docs`
+  //   { version: "1.2.0", docsDir: "../mylib-1.2.0/zig-out/docs" },
+  //   // Any main.wasm/sources.tar pair
+  //   { version: "std-0.14.0", wasm: "./vendor/main.wasm", sources: "./vendor/sources.tar" },
+  // ],
+
+  // Also document non-pub declarations (internal docs)
+  // includePrivate: true,
+
+  // Only expose these modules (or pass a function of the module name)
+  // modules: ["mylib"],
+
+  // Fail the build when the build report lists errors (e.g. in CI)
+  // strict: true,
+});